@@ -0,0 +1,69 @@
+import {checkBranchRules} from "./branchRules";
+import {IBranchRule} from "./projectConfig";
+
+
+describe("checkBranchRules()", () => {
+
+
+    const rules: Array<IBranchRule> = [
+        {name: "releases", branch: "master", tags: ["v*", "latest"], channels: ["beta"], snapshots: false},
+        {branch: "release/*", tags: ["v*"]},
+        {branch: "**", channels: ["dev-*"]}
+    ];
+
+
+    it("allows anything when there are no rules", () => {
+        expect(() => checkBranchRules([], "feature/foo", {tags: ["latest"], channel: "beta", snapshot: true})).not.toThrow();
+    });
+
+
+    it("allows tags, channels and snapshots permitted by the first matching rule", () => {
+        expect(() => checkBranchRules(rules, "master", {tags: ["v1.2.3", "latest"], channel: undefined, snapshot: false})).not.toThrow();
+        expect(() => checkBranchRules(rules, "master", {tags: [], channel: "beta", snapshot: false})).not.toThrow();
+        expect(() => checkBranchRules(rules, "release/1.x", {tags: ["v1.2.3"], channel: undefined, snapshot: false})).not.toThrow();
+        expect(() => checkBranchRules(rules, "feature/foo", {tags: [], channel: "dev-foo", snapshot: false})).not.toThrow();
+    });
+
+
+    it("allows snapshots unless the rule disallows them", () => {
+        expect(() => checkBranchRules(rules, "release/1.x", {tags: [], channel: undefined, snapshot: true})).not.toThrow();
+        expect(() => checkBranchRules(rules, "master", {tags: [], channel: undefined, snapshot: true})).toThrowError(
+            "Publishing snapshots from branch \"master\" is not allowed by branch rule \"releases\" (branch: \"master\")."
+        );
+    });
+
+
+    it("uses only the first matching rule", () => {
+        // The "**" rule would allow this channel, but the "release/*" rule
+        // matches first.
+        expect(() => checkBranchRules(rules, "release/1.x", {tags: [], channel: "dev-foo", snapshot: false})).toThrowError(
+            "Publishing to channel \"dev-foo\" from branch \"release/1.x\" is not allowed by branch rule " +
+            "#2 (branch: \"release/*\")."
+        );
+    });
+
+
+    it("lists the tags that are not allowed", () => {
+        expect(() => checkBranchRules(rules, "release/1.x", {tags: ["v1.2.3", "latest", "stable"], channel: undefined, snapshot: false}))
+        .toThrowError(
+            "Publishing the tag(s) latest, stable from branch \"release/1.x\" is not allowed by branch rule " +
+            "#2 (branch: \"release/*\")."
+        );
+    });
+
+
+    it("does not allow tags or channels when the rule does not list any", () => {
+        expect(() => checkBranchRules(rules, "feature/foo", {tags: ["v1.2.3"], channel: undefined, snapshot: false})).toThrow();
+        expect(() => checkBranchRules(rules, "release/1.x", {tags: [], channel: "beta", snapshot: false})).toThrow();
+    });
+
+
+    it("throws an error when no rule matches the branch", () => {
+        const masterOnly: Array<IBranchRule> = [{branch: "master", tags: ["v*"]}];
+        expect(() => checkBranchRules(masterOnly, "develop", {tags: [], channel: undefined, snapshot: false})).toThrowError(
+            "Publishing from branch \"develop\" is not allowed, because no branch rule matches it."
+        );
+    });
+
+
+});
@@ -0,0 +1,91 @@
+import * as _ from "lodash";
+import {matchesGlob} from "./depot/stringHelpers";
+import {IBranchRule} from "./projectConfig";
+
+
+/**
+ * Describes what is being published, for the purpose of checking it against
+ * the branch rules.
+ */
+export interface IBranchRuleSubject
+{
+    /**
+     * The tags being applied (other than those created for a channel or
+     * snapshot)
+     */
+    tags: Array<string>;
+    /**
+     * The channel being published to (if any)
+     */
+    channel: string | undefined;
+    /**
+     * Whether a snapshot is being published
+     */
+    snapshot: boolean;
+}
+
+
+/**
+ * Makes sure that the branch rules allow publishing from the specified branch.
+ * The first rule whose branch pattern matches the branch is used.
+ * @param rules - The branch rules.  If empty, publishing is always allowed.
+ * @param branchName - The name of the branch being published
+ * @param subject - What is being published
+ */
+export function checkBranchRules(rules: Array<IBranchRule>, branchName: string, subject: IBranchRuleSubject): void
+{
+    if (rules.length === 0)
+    {
+        return;
+    }
+
+    const ruleIndex = _.findIndex(rules, (curRule) => matchesGlob(branchName, curRule.branch));
+    if (ruleIndex < 0)
+    {
+        throw new Error(`Publishing from branch "${branchName}" is not allowed, because no branch rule matches it.`);
+    }
+
+    const rule = rules[ruleIndex];
+    const violation = (what: string) => {
+        return new Error(
+            `Publishing ${what} from branch "${branchName}" is not allowed by branch rule ` +
+            `${describeRule(rule, ruleIndex)}.`
+        );
+    };
+
+    // Snapshots are allowed unless a rule explicitly disallows them.
+    if (subject.snapshot && rule.snapshots === false)
+    {
+        throw violation("snapshots");
+    }
+
+    if (subject.channel !== undefined && !matchesAnyGlob(subject.channel, rule.channels))
+    {
+        throw violation(`to channel "${subject.channel}"`);
+    }
+
+    const disallowedTags = _.filter(subject.tags, (curTag) => !matchesAnyGlob(curTag, rule.tags));
+    if (disallowedTags.length > 0)
+    {
+        throw violation(`the tag(s) ${disallowedTags.join(", ")}`);
+    }
+}
+
+
+/**
+ * Creates a description of a branch rule for use in error messages.
+ * @param rule - The rule
+ * @param ruleIndex - The rule's index within the branchRules setting
+ * @return The description
+ */
+function describeRule(rule: IBranchRule, ruleIndex: number): string
+{
+    const name = rule.name ? `"${rule.name}"` : `#${ruleIndex + 1}`;
+    return `${name} (branch: "${rule.branch}")`;
+}
+
+
+function matchesAnyGlob(str: string, globs: Array<string> | undefined): boolean
+{
+    return _.some(globs || [], (curGlob) => matchesGlob(str, curGlob));
+}
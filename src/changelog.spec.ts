@@ -0,0 +1,86 @@
+import {Changelog} from "./changelog";
+
+
+const changelogText = [
+    "# Changelog",
+    "All notable changes to this project will be documented in this file.",
+    "",
+    "## [Unreleased]",
+    "### Added",
+    "- Something new",
+    "",
+    "## [1.2.3] - 2018-01-01",
+    "### Fixed",
+    "- A bug",
+    "",
+    "## [v1.2.2] 2017-12-01",
+    "### Changed",
+    "- Something else",
+    "",
+    "",
+    "[1.2.3]: https://github.com/kwpeters/publishtogit/compare/v1.2.2...v1.2.3",
+    "[1.2.2]: https://github.com/kwpeters/publishtogit/compare/v1.2.1...v1.2.2",
+    ""
+].join("\n");
+
+
+describe("Changelog", () => {
+
+
+    describe("instance", () => {
+
+
+        describe("sections", () => {
+
+
+            it("contains each release section in order", () => {
+                const changelog = new Changelog(changelogText);
+                expect(changelog.sections.map((curSection) => curSection.version)).toEqual(["Unreleased", "1.2.3", "1.2.2"]);
+            });
+
+
+            it("ignores text before the first section", () => {
+                const changelog = new Changelog("# Changelog\nSome text\n");
+                expect(changelog.sections).toEqual([]);
+            });
+
+
+            it("trims blank lines and omits link references from section bodies", () => {
+                const changelog = new Changelog(changelogText);
+                expect(changelog.sections[2].body).toEqual("### Changed\n- Something else");
+            });
+
+
+            it("handles CRLF line endings", () => {
+                const changelog = new Changelog(changelogText.replace(/\n/g, "\r\n"));
+                expect(changelog.sections[1].heading).toEqual("## [1.2.3] - 2018-01-01");
+                expect(changelog.sections[1].body).toEqual("### Fixed\n- A bug");
+            });
+
+
+        });
+
+
+        describe("getSection()", () => {
+
+
+            it("finds a section with or without a leading v", () => {
+                const changelog = new Changelog(changelogText);
+                expect(changelog.getSection("1.2.3")!.body).toEqual("### Fixed\n- A bug");
+                expect(changelog.getSection("v1.2.2")!.heading).toEqual("## [v1.2.2] 2017-12-01");
+            });
+
+
+            it("returns undefined for a missing version", () => {
+                const changelog = new Changelog(changelogText);
+                expect(changelog.getSection("9.9.9")).toEqual(undefined);
+            });
+
+
+        });
+
+
+    });
+
+
+});
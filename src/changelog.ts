@@ -0,0 +1,138 @@
+import * as _ from "lodash";
+import * as BBPromise from "bluebird";
+import {File} from "./depot/file";
+
+
+//
+// A regex that matches the heading of a release section in a changelog that
+// follows the "Keep a Changelog" format (e.g. "## [1.2.3] - 2018-01-01" or
+// "## [v1.2.3] 2018-01-01").
+// match[1]: The version (without any leading "v")
+// match[2]: The remainder of the line (typically the date)
+//
+const sectionHeadingRegex = /^##\s+\[?v?([^\]\s]+)\]?\s*(.*)$/;
+
+//
+// A regex that matches link reference definitions that typically appear at the
+// end of a changelog (e.g. "[1.2.3]: https://github.com/...").
+//
+const linkReferenceRegex = /^\[[^\]]+\]:\s*\S+/;
+
+
+export interface IChangelogSection
+{
+    /**
+     * The version (without any leading "v") or "Unreleased"
+     */
+    version: string;
+    /**
+     * The heading line of this section
+     */
+    heading: string;
+    /**
+     * The text following the heading (with leading and trailing blank lines
+     * removed)
+     */
+    body: string;
+}
+
+
+/**
+ * @class
+ * @classdesc Represents a changelog that follows the "Keep a Changelog" format
+ * (see http://keepachangelog.com).
+ */
+export class Changelog
+{
+    /**
+     * Reads a changelog from the specified file.
+     * @param file - The file to read
+     * @return A promise for the changelog.  The promise resolves with undefined
+     * if the file does not exist.
+     */
+    public static fromFile(file: File): Promise<Changelog | undefined>
+    {
+        return file.exists()
+        .then((stats): Promise<Changelog | undefined> => {
+            if (!stats)
+            {
+                return BBPromise.resolve(undefined);
+            }
+
+            return file.read()
+            .then((text) => new Changelog(text));
+        });
+    }
+
+
+    // region Data Members
+    private readonly _sections: Array<IChangelogSection>;
+    // endregion
+
+
+    public constructor(text: string)
+    {
+        this._sections = parseSections(text);
+    }
+
+
+    /**
+     * Gets all sections in this changelog in the order they appear.
+     */
+    public get sections(): Array<IChangelogSection>
+    {
+        return this._sections;
+    }
+
+
+    /**
+     * Gets the section describing the specified version.
+     * @param version - The version to find.  A leading "v" is ignored.
+     * @return The section for the specified version or undefined if there is
+     * no such section.
+     */
+    public getSection(version: string): IChangelogSection | undefined
+    {
+        const targetVersion = version.replace(/^v/, "");
+        return _.find(this._sections, (curSection) => curSection.version === targetVersion);
+    }
+}
+
+
+/**
+ * Splits changelog text into its release sections.
+ * @param text - The changelog text
+ * @return The release sections found in the text
+ */
+function parseSections(text: string): Array<IChangelogSection>
+{
+    const sections: Array<IChangelogSection> = [];
+    let curSection: {version: string, heading: string, lines: Array<string>} | undefined;
+
+    const finishSection = () => {
+        if (curSection)
+        {
+            sections.push({
+                version: curSection.version,
+                heading: curSection.heading,
+                body:    _.trim(curSection.lines.join("\n"), "\n")
+            });
+        }
+    };
+
+    _.forEach(text.split(/\r?\n/), (curLine) => {
+        const headingMatch = sectionHeadingRegex.exec(curLine);
+        if (headingMatch)
+        {
+            finishSection();
+            curSection = {version: headingMatch[1], heading: _.trimEnd(curLine), lines: []};
+        }
+        else if (curSection && !linkReferenceRegex.test(curLine))
+        {
+            curSection.lines.push(_.trimEnd(curLine));
+        }
+    });
+
+    finishSection();
+    return sections;
+}
@@ -0,0 +1,107 @@
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {NodePackage} from "./depot/nodePackage";
+import {GitRepo} from "./depot/gitRepo";
+import {CommitHash} from "./depot/commitHash";
+import {spawn} from "./depot/spawn";
+import {PublishProgress} from "./publishProgress";
+import {defaultBuildScript} from "./projectConfig";
+
+
+export interface ICleanBuildOptions
+{
+    /**
+     * The development repo
+     */
+    devRepo: GitRepo;
+    /**
+     * The path of the package's directory relative to the root of the repo
+     */
+    packageSubpath: string;
+    /**
+     * The commit to build
+     */
+    commit: CommitHash;
+    /**
+     * The package.json script that builds the package (the buildScript
+     * setting).  If not specified, the default script is run if it exists.
+     */
+    buildScript?: string;
+    /**
+     * The directory the clone will be created in
+     */
+    buildParentDir: Directory;
+    /**
+     * An emitter that will be notified as each step is started
+     */
+    progress: PublishProgress;
+}
+
+
+/**
+ * Builds the package in a fresh clone of the development repo at the
+ * specified commit.  Dependencies are installed using "npm ci" and then the
+ * build script (if any) is run.
+ * @param options - Options identifying the package to build
+ * @return A Promise for the built package
+ */
+export async function cleanBuild(options: ICleanBuildOptions): Promise<NodePackage>
+{
+    const progress = options.progress;
+    const buildParentDir = options.buildParentDir;
+
+    await buildParentDir.empty();
+
+    progress.report("build", `Creating temporary clone of the development repo at ${buildParentDir.toString()}...`);
+    const buildRepo = await GitRepo.clone(options.devRepo.directory.absolute(), buildParentDir);
+    await buildRepo.checkoutCommit(options.commit);
+
+    // The package may be in a subdirectory of the repo.
+    const buildDir = new Directory(buildRepo.directory, options.packageSubpath);
+
+    const lockFiles = [new File(buildDir, "package-lock.json"), new File(buildDir, "npm-shrinkwrap.json")];
+    if (!_.some(lockFiles, (curFile) => curFile.existsSync()))
+    {
+        throw new Error(
+            "A clean build requires a committed package-lock.json or npm-shrinkwrap.json, because dependencies " +
+            "are installed using \"npm ci\"."
+        );
+    }
+
+    progress.report("build", "Installing dependencies using \"npm ci\"...");
+    await runBuildCommand(buildDir, ["ci"]);
+
+    // Run the build script.  When the default script name is being used, it is
+    // fine for the package not to have one.
+    const buildPkg = await NodePackage.fromDirectory(buildDir);
+    const buildScript = options.buildScript || defaultBuildScript;
+    if (buildPkg.config.scripts && buildPkg.config.scripts[buildScript])
+    {
+        progress.report("build", `Running \"npm run ${buildScript}\"...`);
+        await runBuildCommand(buildDir, ["run", buildScript]);
+    }
+    else if (options.buildScript)
+    {
+        throw new Error(`The build script "${buildScript}" does not exist in package.json.`);
+    }
+
+    return buildPkg;
+}
+
+
+/**
+ * Runs an npm command as part of a clean build.
+ * @param buildDir - The directory containing the clean build
+ * @param args - The arguments for npm
+ * @return A Promise that resolves when the command succeeds
+ */
+async function runBuildCommand(buildDir: Directory, args: Array<string>): Promise<void>
+{
+    try {
+        await spawn("npm", args, buildDir.toString(), undefined, process.stdout, process.stderr).closePromise;
+    }
+    catch (err) {
+        throw new Error(`"npm ${args.join(" ")}" failed with exit code ${err.exitCode}.`);
+    }
+}
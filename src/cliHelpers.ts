@@ -0,0 +1,32 @@
+import * as _ from "lodash";
+
+
+/**
+ * Prints an error that caused a command to fail.
+ * @param err - The error.  Errors are printed using their message.  Anything
+ * else (such as the rejection value of a failed child process) is printed as
+ * JSON.
+ */
+export function printError(err: any): void
+{
+    console.log(err instanceof Error ? err.message : JSON.stringify(err, undefined, 4));
+}
+
+
+/**
+ * Formats rows of text into left-aligned columns.
+ * @param rows - The rows to format.  Each row is an array of cell values.
+ * @return The formatted text (one line per row)
+ */
+export function formatTable(rows: Array<Array<string>>): string
+{
+    const numColumns = _.max(_.map(rows, (curRow) => curRow.length)) || 0;
+    const columnWidths = _.times(numColumns, (colIndex) => {
+        return _.max(_.map(rows, (curRow) => (curRow[colIndex] || "").length)) || 0;
+    });
+
+    return _.map(rows, (curRow) => {
+        return _.trimEnd(_.map(curRow, (curCell, colIndex) => _.padEnd(curCell, columnWidths[colIndex])).join("  "));
+    })
+    .join("\n");
+}
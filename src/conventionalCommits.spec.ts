@@ -0,0 +1,85 @@
+import {IGitLogEntry} from "./depot/gitRepo";
+import {parseConventionalCommit, recommendReleaseType} from "./conventionalCommits";
+
+
+function logEntry(commitHash: string, message: string): IGitLogEntry
+{
+    return {commitHash: commitHash, author: "author", timestamp: new Date(0), message: message};
+}
+
+
+describe("parseConventionalCommit()", () => {
+
+
+    it("parses the type, scope and description", () => {
+        expect(parseConventionalCommit("Feat(cli): add an option")).toEqual({
+            type:        "feat",
+            scope:       "cli",
+            breaking:    false,
+            description: "add an option"
+        });
+    });
+
+
+    it("detects breaking changes marked with ! or a footer", () => {
+        expect(parseConventionalCommit("refactor!: drop Node 4")!.breaking).toEqual(true);
+        expect(parseConventionalCommit("fix: a bug\n\nBREAKING CHANGE: the API changed")!.breaking).toEqual(true);
+        expect(parseConventionalCommit("fix: a bug\n\nBREAKING-CHANGE: the API changed")!.breaking).toEqual(true);
+    });
+
+
+    it("returns undefined for messages that are not conventional commits", () => {
+        expect(parseConventionalCommit("Fixed a bug")).toEqual(undefined);
+        expect(parseConventionalCommit("feat add an option")).toEqual(undefined);
+    });
+
+
+});
+
+
+describe("recommendReleaseType()", () => {
+
+
+    it("recommends a major release for breaking changes", () => {
+        const recommendation = recommendReleaseType([
+            logEntry("1111111aaaa", "feat: a feature"),
+            logEntry("2222222bbbb", "fix!: a breaking fix")
+        ]);
+        expect(recommendation.releaseType).toEqual("major");
+        expect(recommendation.reasons).toEqual([
+            "1 breaking change(s) require a major release:",
+            "    2222222 fix!: a breaking fix"
+        ]);
+    });
+
+
+    it("recommends a minor release for features", () => {
+        const recommendation = recommendReleaseType([
+            logEntry("1111111aaaa", "fix: a fix"),
+            logEntry("2222222bbbb", "feat(cli): a feature")
+        ]);
+        expect(recommendation.releaseType).toEqual("minor");
+    });
+
+
+    it("recommends a patch release for fixes", () => {
+        const recommendation = recommendReleaseType([
+            logEntry("1111111aaaa", "fix: a fix"),
+            logEntry("2222222bbbb", "chore: tidy up")
+        ]);
+        expect(recommendation.releaseType).toEqual("patch");
+        expect(recommendation.reasons[0]).toEqual("1 fix(es) require a patch release:");
+    });
+
+
+    it("defaults to a patch release when no commits are relevant", () => {
+        const recommendation = recommendReleaseType([
+            logEntry("1111111aaaa", "Updated the readme"),
+            logEntry("2222222bbbb", "docs: describe the options")
+        ]);
+        expect(recommendation.releaseType).toEqual("patch");
+        expect(recommendation.reasons.length).toEqual(1);
+    });
+
+
+});
@@ -0,0 +1,145 @@
+import * as _ from "lodash";
+import {IGitLogEntry} from "./depot/gitRepo";
+import {SemVerReleaseType} from "./depot/semver";
+
+
+//
+// A regex that matches the header (first line) of a Conventional Commits
+// message (see https://www.conventionalcommits.org).
+// match[1]: The type (e.g. "feat")
+// match[2]: The scope (optional)
+// match[3]: "!" if the commit contains a breaking change (optional)
+// match[4]: The description
+//
+const headerRegex = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+
+//
+// A regex that matches a breaking change footer.
+//
+const breakingChangeRegex = /^BREAKING[ -]CHANGE:/m;
+
+
+/**
+ * A commit message that follows the Conventional Commits format.
+ */
+export interface IConventionalCommit
+{
+    /**
+     * The type of change (e.g. "feat" or "fix").  Always lowercase.
+     */
+    type: string;
+    /**
+     * The scope of the change.  Undefined if no scope was specified.
+     */
+    scope: string | undefined;
+    /**
+     * Whether the commit contains a breaking change
+     */
+    breaking: boolean;
+    /**
+     * The description from the header line
+     */
+    description: string;
+}
+
+
+/**
+ * The version bump implied by a set of commits.
+ */
+export interface IReleaseTypeRecommendation
+{
+    /**
+     * The recommended type of release
+     */
+    releaseType: SemVerReleaseType;
+    /**
+     * Human-readable explanations of how the release type was chosen
+     */
+    reasons: Array<string>;
+}
+
+
+/**
+ * Parses a commit message that follows the Conventional Commits format.
+ * @param message - The commit message
+ * @return The parsed message or undefined if the message does not follow the
+ * Conventional Commits format.
+ */
+export function parseConventionalCommit(message: string): IConventionalCommit | undefined
+{
+    const [header, ...bodyLines] = _.trim(message).split("\n");
+    const match = headerRegex.exec(_.trim(header));
+    if (!match)
+    {
+        return undefined;
+    }
+
+    return {
+        type:        match[1].toLowerCase(),
+        scope:       match[2],
+        breaking:    match[3] === "!" || breakingChangeRegex.test(bodyLines.join("\n")),
+        description: match[4]
+    };
+}
+
+
+/**
+ * Determines the type of release implied by the specified commits.  Breaking
+ * changes require a major release, "feat" commits a minor release and "fix"
+ * commits a patch release.  If there are no such commits, a patch release is
+ * recommended.
+ * @param entries - The commits that will be included in the release
+ * @return The recommended release type along with the reasons for it
+ */
+export function recommendReleaseType(entries: Array<IGitLogEntry>): IReleaseTypeRecommendation
+{
+    const breaking: Array<string> = [];
+    const features: Array<string> = [];
+    const fixes: Array<string> = [];
+
+    _.forEach(entries, (curEntry) => {
+        const commit = parseConventionalCommit(curEntry.message);
+        if (!commit)
+        {
+            return;
+        }
+
+        const description = `${curEntry.commitHash.slice(0, 7)} ${_.trim(curEntry.message.split("\n")[0])}`;
+        if (commit.breaking)
+        {
+            breaking.push(description);
+        }
+        else if (commit.type === "feat")
+        {
+            features.push(description);
+        }
+        else if (commit.type === "fix")
+        {
+            fixes.push(description);
+        }
+    });
+
+    const describe = (label: string, descriptions: Array<string>) => {
+        return [`${descriptions.length} ${label}:`].concat(_.map(descriptions, (curDesc) => `    ${curDesc}`));
+    };
+
+    if (breaking.length > 0)
+    {
+        return {releaseType: "major", reasons: describe("breaking change(s) require a major release", breaking)};
+    }
+
+    if (features.length > 0)
+    {
+        return {releaseType: "minor", reasons: describe("new feature(s) require a minor release", features)};
+    }
+
+    if (fixes.length > 0)
+    {
+        return {releaseType: "patch", reasons: describe("fix(es) require a patch release", fixes)};
+    }
+
+    return {
+        releaseType: "patch",
+        reasons:     [`None of the ${entries.length} commit(s) are features, fixes or breaking changes.  Defaulting to a patch release.`]
+    };
+}
@@ -38,3 +38,13 @@ export function anyMatchRegex(strings: Array<string>, regex: RegExp): RegExpExec
 export function insertIf<ItemType>(condition: boolean, ...items: Array<ItemType>): Array<ItemType> {
     return condition ? items : [];
 }
+
+
+/**
+ * Determines whether a value is an array containing only strings.
+ * @param value - The value to test
+ * @return true if value is an array of strings; false otherwise
+ */
+export function isStringArray(value: any): value is Array<string> {
+    return Array.isArray(value) && value.every((curItem) => typeof curItem === "string");
+}
@@ -0,0 +1,129 @@
+import {Directory} from "./directory";
+import {File} from "./file";
+import {GitRepo} from "./gitRepo";
+import {spawn} from "./spawn";
+
+
+/**
+ * Creates a repo with a single commit on the branch "feature/foo".  The repo
+ * has the remotes "team" and "team/origin", but no connection to them.
+ * @param repoDir - The directory in which to create the repo
+ * @return A Promise for the repo
+ */
+async function createSampleRepo(repoDir: Directory): Promise<GitRepo>
+{
+    repoDir.emptySync();
+    const git = (...args: Array<string>) => spawn("git", args, repoDir.toString()).closePromise;
+
+    await git("init");
+    await git("config", "user.name", "Jane Doe");
+    await git("config", "user.email", "jane@example.com");
+    await git("checkout", "-b", "feature/foo");
+    new File(repoDir, "README.md").writeSync("Sample\n");
+    await git("add", "-A");
+    await git("commit", "-m", "Initial commit");
+    await git("remote", "add", "team", "https://github.com/team/sample.git");
+    await git("remote", "add", "team/origin", "https://github.com/team/origin.git");
+    return GitRepo.fromDirectory(repoDir);
+}
+
+
+/**
+ * Makes the sample repo's "feature/foo" branch track a branch on a remote,
+ * creating the remote-tracking branch without fetching.
+ * @param repo - The sample repo
+ * @param remoteName - The remote's name
+ * @param branchName - The remote branch's name
+ * @return A Promise that is resolved when the branch is tracking
+ */
+async function trackRemoteBranch(repo: GitRepo, remoteName: string, branchName: string): Promise<void>
+{
+    // "git branch --set-upstream-to" cannot be used, because the fetch
+    // refspecs of the "team" and "team/origin" remotes overlap.
+    const git = (...args: Array<string>) => spawn("git", args, repo.directory.toString()).closePromise;
+    await git("update-ref", `refs/remotes/${remoteName}/${branchName}`, "HEAD");
+    await git("config", "branch.feature/foo.remote", remoteName);
+    await git("config", "branch.feature/foo.merge", `refs/heads/${branchName}`);
+}
+
+
+describe("GitRepo", () => {
+
+
+    describe("instance", () => {
+
+
+        describe("getLogRange()", () => {
+
+
+            const repoDir = new Directory(__dirname, "..", "..", "tmp", "gitRepo");
+            const git = (...args: Array<string>) => spawn("git", args, repoDir.toString()).closePromise;
+            let repo: GitRepo;
+
+
+            beforeEach(async () => {
+                repo = await createSampleRepo(repoDir);
+                new File(repoDir, "packages", "a", "index.js").writeSync("// a\n");
+                await git("add", "-A");
+                await git("commit", "-m", "Add package a");
+                new File(repoDir, "packages", "b", "index.js").writeSync("// b\n");
+                await git("add", "-A");
+                await git("commit", "-m", "Add package b");
+            });
+
+
+            it("includes all commits when fromCommit is undefined, most recent last", async () => {
+                const entries = await repo.getLogRange(undefined, await repo.currentCommitHash());
+                expect(entries.map((curEntry) => curEntry.message)).toEqual(["Initial commit", "Add package a", "Add package b"]);
+            });
+
+
+            it("includes only the commits that changed files within the subpath", async () => {
+                const entries = await repo.getLogRange(undefined, await repo.currentCommitHash(), "packages/a");
+                expect(entries.map((curEntry) => curEntry.message)).toEqual(["Add package a"]);
+            });
+
+
+        });
+
+
+        describe("getTrackingBranch()", () => {
+
+
+            const repoDir = new Directory(__dirname, "..", "..", "tmp", "gitRepo");
+            let repo: GitRepo;
+
+
+            beforeEach(async () => {
+                repo = await createSampleRepo(repoDir);
+            });
+
+
+            it("resolves with the tracked branch, preferring the longest matching remote name", async () => {
+                await trackRemoteBranch(repo, "team/origin", "release/1.x");
+
+                const trackingBranch = await repo.getTrackingBranch();
+                expect(trackingBranch!.remoteName).toEqual("team/origin");
+                expect(trackingBranch!.name).toEqual("release/1.x");
+            });
+
+
+            it("resolves with undefined when the current branch is not tracking a remote branch", async () => {
+                expect(await repo.getTrackingBranch()).toEqual(undefined);
+            });
+
+
+            it("resolves with undefined when HEAD is detached", async () => {
+                await trackRemoteBranch(repo, "team", "feature/foo");
+                await spawn("git", ["checkout", "--detach"], repoDir.toString()).closePromise;
+                expect(await repo.getTrackingBranch()).toEqual(undefined);
+            });
+
+
+        });
+
+
+    });
+
+
+});
@@ -10,9 +10,11 @@ import {gitUrlToProjectName} from "./gitHelpers";
 import {IPackageJson} from "./nodePackage";
 import {CommitHash} from "./commitHash";
 import * as BBPromise from "bluebird";
+import * as fs from "fs";
+import * as path from "path";
 
 
-interface IGitLogEntry
+export interface IGitLogEntry
 {
     // TODO: Change the following to an instance of CommitHash.
     commitHash: string;
@@ -22,6 +24,47 @@ interface IGitLogEntry
 }
 
 
+/**
+ * Describes a tag in a Git repo.
+ */
+export interface IGitTagDetails
+{
+    /**
+     * The name of the tag
+     */
+    name: string;
+    /**
+     * The commit the tag points to
+     */
+    commitHash: CommitHash;
+    /**
+     * Whether this is an annotated tag (as opposed to a lightweight tag)
+     */
+    annotated: boolean;
+    /**
+     * The tagger (e.g. "Jane Doe <jdoe@example.com>").  Undefined for
+     * lightweight tags.
+     */
+    tagger: string | undefined;
+    /**
+     * The date the tag was created.  Undefined for lightweight tags.
+     */
+    date: Date | undefined;
+    /**
+     * The tag's annotation.  Empty for lightweight tags.
+     */
+    message: string;
+}
+
+
+//
+// The characters used to separate fields and records in "git for-each-ref"
+// output.
+//
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
+
+
 //
 // A regex for parsing "git log" output.
 // match[1]: commit hash
@@ -73,6 +116,33 @@ export class GitRepo
     }
 
 
+    /**
+     * Creates a new GitRepo instance for the repo containing the specified
+     * directory.  The directory may be the root of the repo's working tree or
+     * any directory within it.
+     * @param dir - A directory within the repo's working tree
+     * @return A Promise for the GitRepo.
+     */
+    public static fromSubdirectory(dir: Directory): Promise<GitRepo>
+    {
+        return dir.exists()
+        .then((dirExists) => {
+            if (!dirExists)
+            {
+                throw new Error("Path does not exist or is not a Git repo.");
+            }
+
+            return spawn("git", ["rev-parse", "--show-toplevel"], dir.toString()).closePromise
+            .catch(() => {
+                throw new Error("Path does not exist or is not a Git repo.");
+            });
+        })
+        .then((topLevel) => {
+            return GitRepo.fromDirectory(new Directory(topLevel));
+        });
+    }
+
+
     /**
      * Clones a Git repo at the specified location.
      * @param src - The source to clone the repo from
@@ -150,6 +220,23 @@ export class GitRepo
     }
 
 
+    /**
+     * Gets the path of a directory relative to the root of this repo's working
+     * tree.  Symbolic links are resolved before comparing the paths.
+     * @param dir - A directory within this repo's working tree
+     * @return The relative path ("" for the root of the working tree)
+     */
+    public getRelativePath(dir: Directory): string
+    {
+        const relPath = path.relative(fs.realpathSync(this._dir.absPath()), fs.realpathSync(dir.absPath()));
+        if (relPath === ".." || _.startsWith(relPath, ".." + path.sep) || path.isAbsolute(relPath))
+        {
+            throw new Error(`${dir.toString()} is not within the repo at ${this._dir.toString()}.`);
+        }
+        return relPath;
+    }
+
+
     /**
      * Determines whether this GitRepo is equal to another GitRepo.  Two
      * instances are considered equal if they point to the same directory.
@@ -218,6 +305,24 @@ export class GitRepo
     }
 
 
+    /**
+     * Resolves a ref (such as a tag name, branch name or abbreviated commit
+     * hash) to the commit it refers to.
+     * @param ref - The ref to resolve
+     * @return A Promise for the commit's hash.  The Promise resolves with
+     * undefined if ref does not refer to a commit in this repo.
+     */
+    public resolveCommit(ref: string): Promise<CommitHash | undefined>
+    {
+        return spawn("git", ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], this._dir.toString())
+        .closePromise
+        .then(
+            (stdout) => CommitHash.fromString(stdout),
+            () => undefined
+        );
+    }
+
+
     // TODO: Write unit tests for this method.  Make sure there is no leading or trailing whitespace.
     public currentCommitHash(): Promise<CommitHash>
     {
@@ -248,7 +353,7 @@ export class GitRepo
             const lines = stdout.split("\n");
             const remotes: {[name: string]: string} = {};
             lines.forEach((curLine) => {
-                const match = curLine.match(/^(\w+)\s+(.*)\s+\(\w+\)$/);
+                const match = curLine.match(/^(\S+)\s+(.*)\s+\(\w+\)$/);
                 if (match)
                 {
                     remotes[match[1]] = match[2];
@@ -320,6 +425,100 @@ export class GitRepo
     }
 
 
+    /**
+     * Gets the names of the tags that exist in a remote repository.
+     * @param remote - The name or URL of the remote
+     * @return A Promise for the names of the remote's tags
+     */
+    public remoteTags(remote: string): Promise<Array<string>>
+    {
+        return spawn("git", ["ls-remote", "--tags", remote], this._dir.toString())
+        .closePromise
+        .then((stdout) => {
+            // Each line has the form "<hash>\trefs/tags/<name>".  Annotated
+            // tags appear a second time with a "^{}" suffix (the commit they
+            // point to).
+            return _.chain(stdout.split("\n"))
+            .map((curLine) => {
+                const match = /\trefs\/tags\/(.+?)(\^\{\})?$/.exec(curLine);
+                return match ? match[1] : undefined;
+            })
+            .compact()
+            .uniq()
+            .value();
+        });
+    }
+
+
+    /**
+     * Gets details about each tag in this repo.
+     * @return A Promise for an array of tag descriptions
+     */
+    public getTagDetails(): Promise<Array<IGitTagDetails>>
+    {
+        const format = [
+            "%(refname:strip=2)",
+            "%(objecttype)",
+            "%(objectname)",
+            "%(*objectname)",
+            "%(taggername) %(taggeremail)",
+            "%(taggerdate:iso8601-strict)",
+            "%(contents)"
+        ].join("%1f") + "%1e";
+
+        return spawn("git", ["for-each-ref", `--format=${format}`, "refs/tags"], this._dir.toString())
+        .closePromise
+        .then((stdout) => {
+            return _.chain(stdout.split(RECORD_SEPARATOR))
+            .map((curRecord) => _.trim(curRecord, "\n"))
+            .filter((curRecord) => curRecord.length > 0)
+            .map((curRecord): IGitTagDetails | undefined => {
+                const [name, objectType, objectName, peeledObjectName, tagger, date, contents] =
+                    curRecord.split(FIELD_SEPARATOR);
+                const annotated = objectType === "tag";
+                const commitHash = CommitHash.fromString(annotated ? peeledObjectName : objectName);
+
+                // Skip tags that do not point to commits.
+                if (!commitHash)
+                {
+                    return undefined;
+                }
+
+                return {
+                    name:       name,
+                    commitHash: commitHash,
+                    annotated:  annotated,
+                    tagger:     annotated ? _.trim(tagger) : undefined,
+                    date:       annotated && date ? new Date(date) : undefined,
+                    message:    annotated ? _.trim(contents) : ""
+                };
+            })
+            .compact()
+            .value();
+        });
+    }
+
+
+    /**
+     * Gets the names of the tags that point to the specified commit.
+     * @param commit - The commit
+     * @return A Promise for the names of the tags pointing at commit
+     */
+    public tagsPointingAt(commit: CommitHash): Promise<Array<string>>
+    {
+        return spawn("git", ["tag", "--points-at", commit.toString()], this._dir.toString())
+        .closePromise
+        .then((stdout) => {
+            if (stdout.length === 0)
+            {
+                return [];
+            }
+
+            return stdout.split("\n");
+        });
+    }
+
+
     public hasTag(tagName: string): Promise<boolean>
     {
         return this.tags()
@@ -329,7 +528,15 @@ export class GitRepo
     }
 
 
-    public createTag(tagName: string, message: string = "", force: boolean = false): Promise<GitRepo>
+    /**
+     * Creates an annotated tag.
+     * @param tagName - The name of the tag
+     * @param message - The tag's annotation
+     * @param force - Whether to move the tag if it already exists
+     * @param target - The commit to tag.  If not specified, HEAD is tagged.
+     * @return A Promise for this GitRepo
+     */
+    public createTag(tagName: string, message: string = "", force: boolean = false, target?: CommitHash): Promise<GitRepo>
     {
         let args = ["tag"];
 
@@ -337,9 +544,15 @@ export class GitRepo
             args.push("-f");
         }
 
-        args = _.concat(args, "-a", tagName);
+        // Use the "whitespace" cleanup mode so that lines in the message
+        // beginning with "#" (such as Markdown headings) are not removed.
+        args = _.concat(args, "--cleanup=whitespace", "-a", tagName);
         args = _.concat(args, "-m", message);
 
+        if (target) {
+            args.push(target.toString());
+        }
+
         return spawn("git", args, this._dir.toString())
         .closePromise
         .then(() => {
@@ -369,6 +582,32 @@ export class GitRepo
     }
 
 
+    /**
+     * Pushes several tags to the specified remote.
+     * @param tagNames - The names of the tags to push
+     * @param remoteName - The remote to push to
+     * @param atomic - Whether the push should be atomic (either all tags are
+     * pushed or none are)
+     * @return A Promise that is resolved with this GitRepo when the push has
+     * completed
+     */
+    public pushTags(tagNames: Array<string>, remoteName: string, atomic: boolean = false): Promise<GitRepo>
+    {
+        const args = [
+            "push",
+            ...insertIf(atomic, "--atomic"),
+            remoteName,
+            ..._.map(tagNames, (curTagName) => `refs/tags/${curTagName}`)
+        ];
+
+        return spawn("git", args, this._dir.toString())
+        .closePromise
+        .then(() => {
+            return this;
+        });
+    }
+
+
     public pushTag(tagName: string, remoteName: string, force: boolean = false): Promise<GitRepo>
     {
         let args = ["push"];
@@ -387,6 +626,40 @@ export class GitRepo
     }
 
 
+    /**
+     * Deletes tags from the specified remote.
+     * @param tagNames - The names of the tags to delete
+     * @param remoteName - The name of the remote
+     * @return A Promise for this GitRepo
+     */
+    public deleteRemoteTags(tagNames: Array<string>, remoteName: string): Promise<GitRepo>
+    {
+        const refs = _.map(tagNames, (curTagName) => `refs/tags/${curTagName}`);
+        return spawn("git", ["push", remoteName, "--delete", ...refs], this._dir.toString())
+        .closePromise
+        .then(() => {
+            return this;
+        });
+    }
+
+
+    /**
+     * Gets the value of a Git configuration setting.
+     * @param key - The setting's name (e.g. "user.name")
+     * @return A Promise for the setting's value.  The Promise resolves with
+     * undefined if the setting is not set.
+     */
+    public getConfigValue(key: string): Promise<string | undefined>
+    {
+        return spawn("git", ["config", "--get", key], this._dir.toString())
+        .closePromise
+        .then(
+            (stdout) => stdout,
+            () => undefined
+        );
+    }
+
+
     public getBranches(forceUpdate: boolean = false): Promise<Array<GitBranch>>
     {
         if (forceUpdate)
@@ -448,6 +721,93 @@ export class GitRepo
     }
 
 
+    /**
+     * Gets the remote branch that the current branch is tracking.
+     * @return A Promise for the tracked remote branch.  The Promise resolves
+     * with undefined if HEAD is not on a branch or the current branch is not
+     * tracking a remote branch.
+     */
+    public getTrackingBranch(): Promise<GitBranch | undefined>
+    {
+        // When tracking a remote branch, the first line looks like:
+        // ## todo/ts_support...origin/todo/ts_support [ahead 1]
+        // When not tracking a remote branch:
+        // ## todo/ts_support
+        // When in detached head state:
+        // ## HEAD (no branch)
+
+        return BBPromise.all([
+            spawn("git", ["status", "-sb"], this._dir.toString()).closePromise,
+            this.remotes()
+        ])
+        .then(([stdout, remotes]): Promise<GitBranch | undefined> => {
+            const firstLine = stdout.split("\n")[0];
+            const match = /^## .+?\.\.\.(\S+)/.exec(firstLine);
+            if (!match)
+            {
+                return BBPromise.resolve(undefined);
+            }
+
+            // The upstream is of the form "remoteName/branchName".  Since both
+            // may contain slashes, find the longest remote name that is a
+            // prefix.
+            const upstream = match[1];
+            const remoteName = _.chain(remotes)
+            .keys()
+            .filter((curRemoteName) => _.startsWith(upstream, curRemoteName + "/"))
+            .maxBy((curRemoteName) => curRemoteName.length)
+            .value();
+
+            if (!remoteName)
+            {
+                return BBPromise.resolve(undefined);
+            }
+
+            return GitBranch.create(this, upstream.slice(remoteName.length + 1), remoteName);
+        });
+    }
+
+
+    /**
+     * Gets the remote-tracking branches that contain the specified commit.
+     * @param commit - The commit
+     * @return A Promise for the names of the remote-tracking branches (e.g.
+     * "origin/master") that contain commit
+     */
+    public getRemoteBranchesContaining(commit: CommitHash): Promise<Array<string>>
+    {
+        return spawn("git", ["branch", "-r", "--contains", commit.toString()], this._dir.toString())
+        .closePromise
+        .then((stdout) => {
+            return _.chain(stdout.split("\n"))
+            .map((curLine) => curLine.trim())
+            .filter((curLine) => curLine.length > 0)
+            // Filter out the line that looks like: origin/HEAD -> origin/master
+            .filter((curLine) => !/\s+->\s+/.test(curLine))
+            .value();
+        });
+    }
+
+
+    /**
+     * Determines whether a commit is an ancestor of (or the same as) another
+     * commit.
+     * @param ancestor - The potential ancestor
+     * @param descendant - A ref (such as "origin/master") identifying the
+     * potential descendant
+     * @return A Promise for true if ancestor is reachable from descendant
+     */
+    public isAncestor(ancestor: CommitHash, descendant: string): Promise<boolean>
+    {
+        return spawn("git", ["merge-base", "--is-ancestor", ancestor.toString(), descendant], this._dir.toString())
+        .closePromise
+        .then(
+            () => true,
+            () => false
+        );
+    }
+
+
     public checkoutBranch(branch: GitBranch, createIfNonexistent: boolean): Promise<void>
     {
 
@@ -490,7 +850,16 @@ export class GitRepo
     }
 
 
-    public pushCurrentBranch(remoteName: string = "origin", setUpstream: boolean = false): Promise<void>
+    /**
+     * Pushes the current branch to the specified remote.
+     * @param remoteName - The remote to push to
+     * @param setUpstream - Whether to make the pushed branch the current
+     * branch's upstream branch
+     * @param remoteBranchName - The name of the branch on the remote.  If not
+     * specified, the remote branch has the same name as the current branch.
+     * @return A Promise that is resolved when the push has completed
+     */
+    public pushCurrentBranch(remoteName: string = "origin", setUpstream: boolean = false, remoteBranchName?: string): Promise<void>
     {
         return this.getCurrentBranch()
         .then((curBranch) => {
@@ -503,7 +872,7 @@ export class GitRepo
                 "push",
                 ...(setUpstream ? ["-u"] : []),
                 remoteName,
-                curBranch.name
+                remoteBranchName ? `${curBranch.name}:${remoteBranchName}` : curBranch.name
             ];
             return spawn("git", args, this._dir.toString()).closePromise;
         })
@@ -517,7 +886,16 @@ export class GitRepo
 
 
     // TODO: Write unit tests for the following method.
-    public getCommitDeltas(trackingRemote: string = "origin"): Promise<{ahead: number, behind: number}>
+    /**
+     * Counts the commits the current branch is ahead of and behind its
+     * counterpart on a remote.
+     * @param trackingRemote - The name of the remote
+     * @param trackingBranchName - The name of the remote branch.  If not
+     * specified, the remote branch is assumed to have the same name as the
+     * current branch.
+     * @return A Promise for the number of commits ahead and behind
+     */
+    public getCommitDeltas(trackingRemote: string = "origin", trackingBranchName?: string): Promise<{ahead: number, behind: number}>
     {
         return this.getCurrentBranch()
         .then((branch) => {
@@ -528,17 +906,17 @@ export class GitRepo
 
             // The names of the two branches in question.
             const thisBranchName = branch.name;
-            const trackingBranchName = `${trackingRemote}/${thisBranchName}`;
+            const trackingBranchFullName = `${trackingRemote}/${trackingBranchName || thisBranchName}`;
 
             const numAheadPromise = spawn(
                 "git",
-                ["rev-list", thisBranchName, "--not", trackingBranchName, "--count"],
+                ["rev-list", thisBranchName, "--not", trackingBranchFullName, "--count"],
                 this._dir.toString()
             ).closePromise;
 
             const numBehindPromise = spawn(
                 "git",
-                ["rev-list", trackingBranchName, "--not", thisBranchName, "--count"],
+                ["rev-list", trackingBranchFullName, "--not", thisBranchName, "--count"],
                 this._dir.toString()
             ).closePromise;
 
@@ -558,9 +936,23 @@ export class GitRepo
 
 
     // TODO: Add unit tests for this method.
-    public commit(msg: string = ""): Promise<IGitLogEntry>
+    /**
+     * Creates a commit.
+     * @param msg - The commit message
+     * @param files - If specified, only these files are committed (whether or
+     * not they have been staged).  Otherwise, the staged changes are
+     * committed.
+     * @return A Promise for the new commit's log entry
+     */
+    public commit(msg: string = "", files?: Array<File>): Promise<IGitLogEntry>
     {
-        return spawn("git", ["commit", "-m", msg], this._dir.toString())
+        const args = ["commit", "-m", msg];
+        if (files)
+        {
+            args.push("--", ..._.map(files, (curFile) => curFile.absPath()));
+        }
+
+        return spawn("git", args, this._dir.toString())
         .closePromise
         .then(() => {
             // Get the commit hash
@@ -571,6 +963,9 @@ export class GitRepo
             return spawn("git", ["show", commitHash], this._dir.toString()).closePromise;
         })
         .then((stdout) => {
+            // The regex is global, so make sure matching starts at the
+            // beginning of this output.
+            GIT_LOG_ENTRY_REGEX.lastIndex = 0;
             const match = GIT_LOG_ENTRY_REGEX.exec(stdout);
             if (!match)
             {
@@ -586,6 +981,20 @@ export class GitRepo
     }
 
 
+    /**
+     * Resets the current branch to the specified commit, discarding all
+     * changes in the working tree (i.e. "git reset --hard").
+     * @param commit - The commit to reset to
+     * @return A Promise that is resolved when the reset has completed
+     */
+    public resetHard(commit: CommitHash): Promise<void>
+    {
+        return spawn("git", ["reset", "--hard", commit.toString()], this._dir.toString())
+        .closePromise
+        .then(() => {});
+    }
+
+
     /**
      * Fetches from the specified remote.
      * @param remoteName - The remote to fetch from
@@ -612,6 +1021,31 @@ export class GitRepo
     }
 
 
+    /**
+     * Fetches a single ref (such as a branch) from the specified remote.
+     * @param remote - The name or URL of the remote to fetch from
+     * @param ref - The ref to fetch
+     * @return A promise that is resolved when the command completes
+     * successfully
+     */
+    public fetchRef(remote: string, ref: string): Promise<void> {
+        return spawn("git", ["fetch", remote, ref], this._dir.toString()).closePromise
+        .then(() => {});
+    }
+
+
+    /**
+     * Fetches all tags from the specified remote.  Local tags that have been
+     * moved on the remote are updated.
+     * @param remoteName - The remote to fetch from
+     * @return A promise that is resolved when the command completes
+     * successfully
+     */
+    public fetchTags(remoteName: string = "origin"): Promise<void> {
+        return this.fetchRef(remoteName, "+refs/tags/*:refs/tags/*");
+    }
+
+
     public getLog(forceUpdate?: boolean): Promise<Array<IGitLogEntry>>
     {
         if (forceUpdate)
@@ -641,18 +1075,46 @@ export class GitRepo
 
 
     /**
-     * Helper method that retrieves Git log entries
-     * @private
-     * @method
-     * @return A promise for an array of structures describing each commit.
+     * Gets the log entries for the commits reachable from toCommit but not
+     * from fromCommit (i.e. "git log fromCommit..toCommit").
+     * @param fromCommit - The commit to start after.  If undefined, all
+     * commits reachable from toCommit are included.
+     * @param toCommit - The last commit to include
+     * @param subpath - If specified, only commits that changed files within
+     * this path (relative to the root of the working tree) are included.  ""
+     * includes all commits.
+     * @return A Promise for the log entries, with the most recent entry last
      */
-    private getLogEntries(): Promise<Array<IGitLogEntry>>
+    public getLogRange(fromCommit: CommitHash | undefined, toCommit: CommitHash, subpath?: string): Promise<Array<IGitLogEntry>>
     {
-        return spawn("git", ["log"], this._dir.toString())
+        const revisionRange = fromCommit ?
+                              `${fromCommit.toString()}..${toCommit.toString()}` :
+                              toCommit.toString();
+        return this.getLogEntries(revisionRange, subpath);
+    }
+
+
+    /**
+     * Gets log entries.
+     * @param revisionRange - The revision range to get entries for (see "git
+     * log").  If not specified, the history of HEAD is used.
+     * @param subpath - If specified, only commits that changed files within
+     * this path are included
+     * @return A Promise for the log entries, with the most recent entry last
+     */
+    private getLogEntries(revisionRange?: string, subpath?: string): Promise<Array<IGitLogEntry>>
+    {
+        const args = [
+            "log",
+            ...insertIf(revisionRange !== undefined, revisionRange!),
+            ...insertIf(Boolean(subpath), "--", subpath!)
+        ];
+        return spawn("git", args, this._dir.toString())
         .closePromise
         .then((stdout) => {
             const entries: Array<IGitLogEntry> = [];
             let match: RegExpExecArray | null;
+            GIT_LOG_ENTRY_REGEX.lastIndex = 0;
             while ((match = GIT_LOG_ENTRY_REGEX.exec(stdout)) !== null) // tslint:disable-line
             {
                 entries.push(
@@ -674,6 +1136,3 @@ export class GitRepo
 
 
 }
-
-// TODO: The following will list all tags pointing to the specified commit.
-// git tag --points-at 34b8bff
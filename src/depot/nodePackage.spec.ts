@@ -0,0 +1,84 @@
+import {Directory} from "./directory";
+import {File} from "./file";
+import {NodePackage} from "./nodePackage";
+
+
+describe("NodePackage", () => {
+
+
+    describe("instance", () => {
+
+
+        describe("setVersion()", () => {
+
+
+            const tmpDir = new Directory(__dirname, "..", "..", "tmp", "nodePackage");
+            const pkgJson = new File(tmpDir, "package.json");
+
+
+            beforeEach(() => {
+                tmpDir.emptySync();
+            });
+
+
+            it("changes only the version, preserving the file's formatting", async () => {
+                const original =
+                    "{\n" +
+                    "\t\"name\":    \"sample\",\n" +
+                    "\t\"version\" : \"1.2.3\",\n" +
+                    "\t\"keywords\": [\"a\", \"b\"]\n" +
+                    "}\r\n";
+                pkgJson.writeSync(original);
+
+                const pkg = await NodePackage.fromDirectory(tmpDir);
+                await pkg.setVersion("1.3.0-beta.1");
+
+                expect(pkgJson.readSync()).toEqual(original.replace("1.2.3", "1.3.0-beta.1"));
+            });
+
+
+            it("refuses to change a nested version property that precedes the top-level one", async () => {
+                pkgJson.writeSync(
+                    "{\n" +
+                    "  \"name\": \"sample\",\n" +
+                    "  \"engines\": {\"node\": {\"version\": \"1.2.3\"}},\n" +
+                    "  \"version\": \"1.2.3\"\n" +
+                    "}\n"
+                );
+
+                const pkg = await NodePackage.fromDirectory(tmpDir);
+                await pkg.setVersion("2.0.0").then(
+                    () => fail("setVersion() should have been rejected."),
+                    (err) => expect(err.message).toEqual(`Unable to update the version in ${pkgJson.toString()}.`)
+                );
+            });
+
+
+            it("re-reads package.json after the version has been changed", async () => {
+                pkgJson.writeJsonSync({name: "sample", version: "1.2.3"});
+
+                const pkg = await NodePackage.fromDirectory(tmpDir);
+                expect(pkg.config.version).toEqual("1.2.3");
+                await pkg.setVersion("1.2.4");
+                expect(pkg.config.version).toEqual("1.2.4");
+            });
+
+
+            it("rejects when package.json does not have a version", async () => {
+                pkgJson.writeJsonSync({name: "sample"});
+
+                const pkg = await NodePackage.fromDirectory(tmpDir);
+                await pkg.setVersion("1.2.4").then(
+                    () => fail("setVersion() should have been rejected."),
+                    (err) => expect(err.message).toEqual(`${pkgJson.toString()} does not have a version.`)
+                );
+            });
+
+
+        });
+
+
+    });
+
+
+});
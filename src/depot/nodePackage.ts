@@ -1,4 +1,5 @@
 import * as fs from "fs";
+import * as _ from "lodash";
 import * as BBPromise from "bluebird";
 import {Directory} from "./directory";
 import {File} from "./file";
@@ -12,6 +13,12 @@ export interface IPackageJson
     version: string;
     description: string;
     repository: {type: string, url: string};
+    scripts?: {[name: string]: string};
+    dependencies?: {[name: string]: string};
+    devDependencies?: {[name: string]: string};
+    peerDependencies?: {[name: string]: string};
+    optionalDependencies?: {[name: string]: string};
+    workspaces?: Array<string> | {packages?: Array<string>};
 }
 
 
@@ -73,6 +80,16 @@ export class NodePackage
     }
 
 
+    /**
+     * Gets the directory containing this package.
+     * @return The (absolute) directory containing this package
+     */
+    public get directory(): Directory
+    {
+        return this._pkgDir;
+    }
+
+
     // TODO: Write unit tests for the following method.
     public get projectName(): string
     {
@@ -92,6 +109,42 @@ export class NodePackage
     }
 
 
+    /**
+     * Sets the version in this package's package.json file.  Only the version
+     * is changed; the file's formatting is preserved.
+     * @param version - The new version
+     * @return A promise that is resolved when package.json has been updated
+     */
+    public setVersion(version: string): Promise<void>
+    {
+        const packageJson = new File(this._pkgDir, "package.json");
+        return packageJson.read()
+        .then((text) => {
+            const curVersion = JSON.parse(text).version;
+            if (curVersion === undefined)
+            {
+                throw new Error(`${packageJson.toString()} does not have a version.`);
+            }
+
+            // Replace the first "version" property with the current value.
+            // Since properties in nested objects could also be named
+            // "version", make sure it was the top-level one that changed.
+            const versionRegex = new RegExp(`("version"\\s*:\\s*")${_.escapeRegExp(curVersion)}(")`);
+            const newText = text.replace(versionRegex, `$1${version}$2`);
+            if (JSON.parse(newText).version !== version)
+            {
+                throw new Error(`Unable to update the version in ${packageJson.toString()}.`);
+            }
+
+            return packageJson.write(newText);
+        })
+        .then(() => {
+            // Make sure the new version is read the next time it is needed.
+            this._config = undefined;
+        });
+    }
+
+
     /**
      * Packs this Node package into a .tgz file using "npm pack"
      * @method
@@ -0,0 +1,145 @@
+import * as _ from "lodash";
+import {SemVer, SemVerReleaseType} from "./semver";
+
+
+describe("SemVer", () => {
+
+
+    describe("static", () => {
+
+
+        describe("isSemVer()", () => {
+
+
+            it("returns true for valid versions with or without a leading v", () => {
+                expect(SemVer.isSemVer("1.2.3")).toEqual(true);
+                expect(SemVer.isSemVer("v1.2.3")).toEqual(true);
+                expect(SemVer.isSemVer("1.2.3-beta.1")).toEqual(true);
+                expect(SemVer.isSemVer("1.2.3-beta.1+build.5")).toEqual(true);
+            });
+
+
+            it("returns false for invalid versions", () => {
+                expect(SemVer.isSemVer("1.2")).toEqual(false);
+                expect(SemVer.isSemVer("latest")).toEqual(false);
+                expect(SemVer.isSemVer("1.2.3-")).toEqual(false);
+            });
+
+
+        });
+
+
+        describe("fromString()", () => {
+
+
+            it("parses the version's parts", () => {
+                const ver = SemVer.fromString("v1.2.3-beta.4+build.5")!;
+                expect(ver.major).toEqual(1);
+                expect(ver.minor).toEqual(2);
+                expect(ver.patch).toEqual(3);
+                expect(ver.prerelease).toEqual(["beta", "4"]);
+                expect(ver.isPrerelease()).toEqual(true);
+                expect(ver.toString()).toEqual("1.2.3-beta.4+build.5");
+            });
+
+
+            it("returns undefined for an invalid version", () => {
+                expect(SemVer.fromString("foo")).toEqual(undefined);
+            });
+
+
+        });
+
+
+        describe("compare()", () => {
+
+
+            it("sorts versions according to semver precedence", () => {
+                const expected = [
+                    "1.0.0-alpha",
+                    "1.0.0-alpha.1",
+                    "1.0.0-alpha.beta",
+                    "1.0.0-beta",
+                    "1.0.0-beta.2",
+                    "1.0.0-beta.11",
+                    "1.0.0-rc.1",
+                    "1.0.0",
+                    "1.0.1",
+                    "1.2.0",
+                    "1.10.0",
+                    "2.0.0"
+                ];
+                const versions = _.map(_.reverse(_.clone(expected)), (curVer) => SemVer.fromString(curVer)!);
+                versions.sort(SemVer.compare);
+                expect(_.map(versions, (curVer) => curVer.toString())).toEqual(expected);
+            });
+
+
+            it("ignores build metadata", () => {
+                expect(SemVer.fromString("1.2.3+a")!.equals(SemVer.fromString("1.2.3+b")!)).toEqual(true);
+            });
+
+
+        });
+
+
+    });
+
+
+    describe("instance", () => {
+
+
+        describe("bump()", () => {
+
+
+            const bump = (version: string, releaseType: SemVerReleaseType, prereleaseId?: string) => {
+                return SemVer.fromString(version)!.bump(releaseType, prereleaseId).toString();
+            };
+
+
+            it("increments release versions", () => {
+                expect(bump("1.2.3", "patch")).toEqual("1.2.4");
+                expect(bump("1.2.3", "minor")).toEqual("1.3.0");
+                expect(bump("1.2.3", "major")).toEqual("2.0.0");
+            });
+
+
+            it("completes prereleases the way npm version does", () => {
+                expect(bump("1.2.4-beta.1", "patch")).toEqual("1.2.4");
+                expect(bump("1.3.0-beta.1", "minor")).toEqual("1.3.0");
+                expect(bump("1.2.4-beta.1", "minor")).toEqual("1.3.0");
+                expect(bump("2.0.0-beta.1", "major")).toEqual("2.0.0");
+                expect(bump("2.1.0-beta.1", "major")).toEqual("3.0.0");
+            });
+
+
+            it("starts a prerelease of the next patch version", () => {
+                expect(bump("1.2.3", "prerelease")).toEqual("1.2.4-0");
+                expect(bump("1.2.3", "prerelease", "beta")).toEqual("1.2.4-beta.0");
+            });
+
+
+            it("increments an existing prerelease", () => {
+                expect(bump("1.2.4-beta.0", "prerelease", "beta")).toEqual("1.2.4-beta.1");
+                expect(bump("1.2.4-beta.9", "prerelease")).toEqual("1.2.4-beta.10");
+                expect(bump("1.2.4-beta", "prerelease")).toEqual("1.2.4-beta.0");
+            });
+
+
+            it("restarts the prerelease number when the identifier changes", () => {
+                expect(bump("1.2.4-alpha.3", "prerelease", "beta")).toEqual("1.2.4-beta.0");
+            });
+
+
+            it("drops build metadata", () => {
+                expect(bump("1.2.3+build.1", "patch")).toEqual("1.2.4");
+            });
+
+
+        });
+
+
+    });
+
+
+});
@@ -0,0 +1,273 @@
+import * as _ from "lodash";
+
+
+//
+// A regex for parsing semantic version strings.  A leading "v" is allowed.
+// match[1]: major
+// match[2]: minor
+// match[3]: patch
+// match[4]: prerelease identifiers (optional)
+// match[5]: build metadata (optional)
+//
+const semverRegex = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+([0-9A-Za-z.-]+))?$/;
+
+
+/**
+ * The ways in which a version can be incremented.
+ */
+export type SemVerReleaseType = "major" | "minor" | "patch" | "prerelease";
+
+
+export class SemVer
+{
+    /**
+     * Determines whether the specified string is a semantic version.
+     * @param str - The string to test.  A leading "v" is allowed.
+     * @return true if str is a semantic version; false otherwise
+     */
+    public static isSemVer(str: string): boolean
+    {
+        return semverRegex.test(str);
+    }
+
+
+    /**
+     * Creates a SemVer from a string.
+     * @param str - The string to parse.  A leading "v" is allowed.
+     * @return The resulting SemVer or undefined if str is not a valid semantic
+     * version.
+     */
+    public static fromString(str: string): SemVer | undefined
+    {
+        const match = semverRegex.exec(_.trim(str));
+        if (!match)
+        {
+            return undefined;
+        }
+
+        return new SemVer(
+            parseInt(match[1], 10),
+            parseInt(match[2], 10),
+            parseInt(match[3], 10),
+            match[4] ? match[4].split(".") : [],
+            match[5] ? match[5].split(".") : []
+        );
+    }
+
+
+    /**
+     * Compares two SemVers according to semver precedence rules.  This
+     * function can be passed to Array.prototype.sort().
+     * @param a - The first version
+     * @param b - The second version
+     * @return A negative number if a < b, 0 if they are equal and a positive
+     * number if a > b.
+     */
+    public static compare(a: SemVer, b: SemVer): number
+    {
+        return a.compare(b);
+    }
+
+
+    // region Data Members
+    private readonly _major: number;
+    private readonly _minor: number;
+    private readonly _patch: number;
+    private readonly _prerelease: Array<string>;
+    private readonly _build: Array<string>;
+    // endregion
+
+
+    private constructor(major: number, minor: number, patch: number, prerelease: Array<string>, build: Array<string>)
+    {
+        this._major = major;
+        this._minor = minor;
+        this._patch = patch;
+        this._prerelease = prerelease;
+        this._build = build;
+    }
+
+
+    public get major(): number
+    {
+        return this._major;
+    }
+
+
+    public get minor(): number
+    {
+        return this._minor;
+    }
+
+
+    public get patch(): number
+    {
+        return this._patch;
+    }
+
+
+    /**
+     * The prerelease identifiers (e.g. ["beta", "3"] for 1.2.3-beta.3).  An
+     * empty array if this is not a prerelease version.
+     */
+    public get prerelease(): Array<string>
+    {
+        return _.clone(this._prerelease);
+    }
+
+
+    public isPrerelease(): boolean
+    {
+        return this._prerelease.length > 0;
+    }
+
+
+    /**
+     * Gets the string representation of this version (without a leading "v").
+     */
+    public toString(): string
+    {
+        let str = `${this._major}.${this._minor}.${this._patch}`;
+        if (this._prerelease.length > 0)
+        {
+            str += "-" + this._prerelease.join(".");
+        }
+        if (this._build.length > 0)
+        {
+            str += "+" + this._build.join(".");
+        }
+        return str;
+    }
+
+
+    /**
+     * Compares this version with another according to semver precedence
+     * rules.  Build metadata is ignored.
+     * @param other - The version to compare with
+     * @return A negative number if this < other, 0 if they are equal and a
+     * positive number if this > other.
+     */
+    public compare(other: SemVer): number
+    {
+        const mainDiff = (this._major - other._major) ||
+                         (this._minor - other._minor) ||
+                         (this._patch - other._patch);
+        if (mainDiff !== 0)
+        {
+            return mainDiff;
+        }
+
+        // A version without prerelease identifiers has higher precedence.
+        if (this._prerelease.length === 0 || other._prerelease.length === 0)
+        {
+            return other._prerelease.length - this._prerelease.length;
+        }
+
+        const numIdentifiers = Math.min(this._prerelease.length, other._prerelease.length);
+        for (let i = 0; i < numIdentifiers; ++i)
+        {
+            const diff = comparePrereleaseIdentifiers(this._prerelease[i], other._prerelease[i]);
+            if (diff !== 0)
+            {
+                return diff;
+            }
+        }
+
+        // A larger set of prerelease identifiers has higher precedence.
+        return this._prerelease.length - other._prerelease.length;
+    }
+
+
+    public equals(other: SemVer): boolean
+    {
+        return this.compare(other) === 0;
+    }
+
+
+    /**
+     * Creates the next version of the specified type.  The rules used by "npm
+     * version" are followed (e.g. a patch bump of 1.2.4-beta.1 is 1.2.4).
+     * Build metadata is dropped.
+     * @param releaseType - The type of release
+     * @param prereleaseId - When creating a prerelease, the identifier to use
+     * (e.g. "beta").  If not specified, a purely numeric prerelease is created
+     * or the current prerelease identifier is kept.
+     * @return The new version
+     */
+    public bump(releaseType: SemVerReleaseType, prereleaseId?: string): SemVer
+    {
+        const isPrerelease = this.isPrerelease();
+
+        if (releaseType === "major")
+        {
+            // A prerelease of a new major version is completed by dropping
+            // its prerelease identifiers.
+            return (isPrerelease && this._minor === 0 && this._patch === 0) ?
+                   new SemVer(this._major, 0, 0, [], []) :
+                   new SemVer(this._major + 1, 0, 0, [], []);
+        }
+
+        if (releaseType === "minor")
+        {
+            return (isPrerelease && this._patch === 0) ?
+                   new SemVer(this._major, this._minor, 0, [], []) :
+                   new SemVer(this._major, this._minor + 1, 0, [], []);
+        }
+
+        if (releaseType === "patch")
+        {
+            return isPrerelease ?
+                   new SemVer(this._major, this._minor, this._patch, [], []) :
+                   new SemVer(this._major, this._minor, this._patch + 1, [], []);
+        }
+
+        // A prerelease of the next patch version is started, unless this is
+        // already a prerelease with the same identifier, in which case its
+        // number is incremented.
+        const firstPrerelease = prereleaseId ? [prereleaseId, "0"] : ["0"];
+        if (!isPrerelease)
+        {
+            return new SemVer(this._major, this._minor, this._patch + 1, firstPrerelease, []);
+        }
+
+        if (prereleaseId && this._prerelease[0] !== prereleaseId)
+        {
+            return new SemVer(this._major, this._minor, this._patch, firstPrerelease, []);
+        }
+
+        const prerelease = _.clone(this._prerelease);
+        const lastNumericIndex = _.findLastIndex(prerelease, (curIdentifier) => /^\d+$/.test(curIdentifier));
+        if (lastNumericIndex >= 0)
+        {
+            prerelease[lastNumericIndex] = String(parseInt(prerelease[lastNumericIndex], 10) + 1);
+        }
+        else
+        {
+            prerelease.push("0");
+        }
+        return new SemVer(this._major, this._minor, this._patch, prerelease, []);
+    }
+}
+
+
+/**
+ * Compares two prerelease identifiers.  Numeric identifiers are compared
+ * numerically and have lower precedence than alphanumeric identifiers.
+ */
+function comparePrereleaseIdentifiers(a: string, b: string): number
+{
+    const aIsNumeric = /^\d+$/.test(a);
+    const bIsNumeric = /^\d+$/.test(b);
+
+    if (aIsNumeric && bIsNumeric)
+    {
+        return parseInt(a, 10) - parseInt(b, 10);
+    }
+
+    if (aIsNumeric !== bIsNumeric)
+    {
+        return aIsNumeric ? -1 : 1;
+    }
+
+    return a < b ? -1 : (a > b ? 1 : 0);
+}
@@ -0,0 +1,50 @@
+import {globToRegExp, matchesGlob} from "./stringHelpers";
+
+
+describe("globToRegExp()", () => {
+
+
+    it("anchors the pattern to the whole string", () => {
+        const regex = globToRegExp("master");
+        expect(regex.test("master")).toEqual(true);
+        expect(regex.test("old-master")).toEqual(false);
+        expect(regex.test("master-old")).toEqual(false);
+    });
+
+
+    it("escapes regular expression characters", () => {
+        const regex = globToRegExp("v1.2+(x)");
+        expect(regex.test("v1.2+(x)")).toEqual(true);
+        expect(regex.test("v1x2+(x)")).toEqual(false);
+    });
+
+
+});
+
+
+describe("matchesGlob()", () => {
+
+
+    it("matches * against any characters except /", () => {
+        expect(matchesGlob("release/1.2", "release/*")).toEqual(true);
+        expect(matchesGlob("release/", "release/*")).toEqual(true);
+        expect(matchesGlob("release/1.2/hotfix", "release/*")).toEqual(false);
+        expect(matchesGlob("v1.2.3", "v*")).toEqual(true);
+    });
+
+
+    it("matches ** against any characters including /", () => {
+        expect(matchesGlob("release/1.2/hotfix", "release/**")).toEqual(true);
+        expect(matchesGlob("snapshots/v1.2.3", "**")).toEqual(true);
+        expect(matchesGlob("packages/a/b", "packages/**/b")).toEqual(true);
+    });
+
+
+    it("matches ? against a single character except /", () => {
+        expect(matchesGlob("v1", "v?")).toEqual(true);
+        expect(matchesGlob("v12", "v?")).toEqual(false);
+        expect(matchesGlob("a/b", "a?b")).toEqual(false);
+    });
+
+
+});
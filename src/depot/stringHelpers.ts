@@ -108,3 +108,51 @@ export function removeWhitespace(str: string): string
 {
     return str.replace(whitespaceRegex, "");
 }
+
+
+/**
+ * Converts a glob pattern into a regular expression.  "*" matches any
+ * sequence of characters except "/", "**" matches any sequence of characters
+ * (including "/") and "?" matches any single character except "/".
+ * @param glob - The glob pattern
+ * @return A regular expression that matches entire strings matching glob
+ */
+export function globToRegExp(glob: string): RegExp
+{
+    let regexStr = "";
+    for (let i = 0; i < glob.length; ++i)
+    {
+        const curChar = glob[i];
+        if (curChar === "*" && glob[i + 1] === "*")
+        {
+            regexStr += ".*";
+            ++i;
+        }
+        else if (curChar === "*")
+        {
+            regexStr += "[^/]*";
+        }
+        else if (curChar === "?")
+        {
+            regexStr += "[^/]";
+        }
+        else
+        {
+            regexStr += _.escapeRegExp(curChar);
+        }
+    }
+
+    return new RegExp(`^${regexStr}$`);
+}
+
+
+/**
+ * Determines whether a string matches a glob pattern (see globToRegExp()).
+ * @param str - The string to test
+ * @param glob - The glob pattern
+ * @return true if str matches glob; false otherwise
+ */
+export function matchesGlob(str: string, glob: string): boolean
+{
+    return globToRegExp(glob).test(str);
+}
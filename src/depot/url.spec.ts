@@ -0,0 +1,91 @@
+import {Url} from "./url";
+
+
+describe("Url", () => {
+
+
+    describe("instance", () => {
+
+
+        describe("getNormalizedGitRepo()", () => {
+
+
+            it("removes the protocol and a trailing .git from https URLs", () => {
+                const url = Url.fromString("https://github.com/kwpeters/publishtogit.git")!;
+                expect(url.getNormalizedGitRepo()).toEqual("github.com/kwpeters/publishtogit");
+            });
+
+
+            it("removes all protocols from git+https URLs", () => {
+                const url = Url.fromString("git+https://github.com/kwpeters/publishtogit.git")!;
+                expect(url.getNormalizedGitRepo()).toEqual("github.com/kwpeters/publishtogit");
+            });
+
+
+            it("removes the user name and port from ssh URLs", () => {
+                const url = Url.fromString("ssh://git@github.com:22/kwpeters/publishtogit.git")!;
+                expect(url.getNormalizedGitRepo()).toEqual("github.com/kwpeters/publishtogit");
+            });
+
+
+            it("removes the user name from scp-style URLs", () => {
+                const url = Url.fromString("git@github.com:kwpeters/publishtogit.git")!;
+                expect(url.getNormalizedGitRepo()).toEqual("github.com/kwpeters/publishtogit");
+            });
+
+
+            it("lowercases the host but not the path", () => {
+                const url = Url.fromString("https://GitHub.com/KWPeters/PublishToGit")!;
+                expect(url.getNormalizedGitRepo()).toEqual("github.com/KWPeters/PublishToGit");
+            });
+
+
+            it("removes trailing slashes", () => {
+                const url = Url.fromString("https://github.com/kwpeters/publishtogit/")!;
+                expect(url.getNormalizedGitRepo()).toEqual("github.com/kwpeters/publishtogit");
+            });
+
+
+            it("leaves local paths alone except for a trailing .git", () => {
+                expect(Url.fromString("/tmp/repos/sample.git")!.getNormalizedGitRepo()).toEqual("/tmp/repos/sample");
+                expect(Url.fromString("../sample")!.getNormalizedGitRepo()).toEqual("../sample");
+            });
+
+
+        });
+
+
+        describe("isSameGitRepo()", () => {
+
+
+            it("returns true for https, git+https, ssh and scp-style URLs of the same repo", () => {
+                const urls = [
+                    "https://github.com/kwpeters/publishtogit.git",
+                    "git+https://github.com/kwpeters/publishtogit.git",
+                    "ssh://git@github.com/kwpeters/publishtogit.git",
+                    "git@github.com:kwpeters/publishtogit.git",
+                    "https://github.com/kwpeters/publishtogit"
+                ];
+                const first = Url.fromString(urls[0])!;
+                urls.forEach((curUrl) => {
+                    expect(first.isSameGitRepo(Url.fromString(curUrl)!)).toEqual(true);
+                });
+            });
+
+
+            it("returns false for different repos", () => {
+                const a = Url.fromString("https://github.com/kwpeters/publishtogit.git")!;
+                const b = Url.fromString("git@github.com:kwpeters/sampleGitRepo-src.git")!;
+                const c = Url.fromString("https://gitlab.com/kwpeters/publishtogit.git")!;
+                expect(a.isSameGitRepo(b)).toEqual(false);
+                expect(a.isSameGitRepo(c)).toEqual(false);
+            });
+
+
+        });
+
+
+    });
+
+
+});
@@ -9,6 +9,14 @@ import * as _ from "lodash";
 const urlProtocolRegex = /^([a-zA-Z0-9_+]+?):\/\//;
 
 
+//
+// A regex that matches scp-style Git URLs (e.g. "git@github.com:user/repo.git").
+// results[1] - The host
+// results[2] - The path
+//
+const scpStyleUrlRegex = /^(?:[^@\/]+@)?([^:\/]+):(.+)$/;
+
+
 export class Url
 {
     public static is(obj: any): obj is Url {
@@ -54,6 +62,61 @@ export class Url
     }
 
 
+    /**
+     * Gets a normalized representation of this URL that identifies the Git
+     * repository it refers to.  Protocols, user names, ports, a trailing ".git"
+     * and trailing slashes are removed and the host name is lowercased.  This
+     * allows https, git+https, ssh and scp-style URLs that refer to the same
+     * repository to be compared.
+     * @return The normalized representation of this URL
+     */
+    public getNormalizedGitRepo(): string
+    {
+        let host = "";
+        let repoPath: string;
+
+        const urlStr = _.trim(this._url);
+        const scpMatch = scpStyleUrlRegex.exec(urlStr);
+
+        if (urlProtocolRegex.test(urlStr))
+        {
+            // Remove the protocols and any user name.
+            const withoutProtocol = urlStr.replace(urlProtocolRegex, "").replace(/^[^@\/]+@/, "");
+            const slashIndex = withoutProtocol.indexOf("/");
+            host = slashIndex < 0 ? withoutProtocol : withoutProtocol.slice(0, slashIndex);
+            repoPath = slashIndex < 0 ? "" : withoutProtocol.slice(slashIndex);
+
+            // Remove any port number.
+            host = host.replace(/:\d*$/, "");
+        }
+        else if (scpMatch)
+        {
+            host = scpMatch[1];
+            repoPath = scpMatch[2];
+        }
+        else
+        {
+            // A local path.
+            repoPath = urlStr;
+        }
+
+        repoPath = repoPath.replace(/\/+$/, "").replace(/\.git$/, "");
+        return host ? `${host.toLowerCase()}/${_.trimStart(repoPath, "/")}` : repoPath;
+    }
+
+
+    /**
+     * Determines whether this URL and another refer to the same Git repository.
+     * @param other - The other URL
+     * @return true if the URLs refer to the same Git repository; false
+     * otherwise.
+     */
+    public isSameGitRepo(other: Url): boolean
+    {
+        return this.getNormalizedGitRepo() === other.getNormalizedGitRepo();
+    }
+
+
     public replaceProtocol(newProtocol: string): Url
     {
         if (!_.endsWith(newProtocol, "://"))
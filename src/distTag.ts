@@ -0,0 +1,215 @@
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {GitRepo} from "./depot/gitRepo";
+import {CommitHash} from "./depot/commitHash";
+import {resolvePublishRemote} from "./publishRemote";
+import {getPublishTags, isImmutableTag, IPublishTag} from "./publishTags";
+import {getProjectConfig} from "./projectConfig";
+
+
+export interface IDistTagOptions
+{
+    /**
+     * The directory containing the package
+     */
+    packageDir: Directory;
+    /**
+     * The remote the dist-tags live on.  If not specified, the remote tracked
+     * by the current branch is used.
+     */
+    remote?: string;
+}
+
+
+export interface IAddDistTagOptions extends IDistTagOptions
+{
+    /**
+     * The version tag identifying the publish commit to apply the dist-tag to
+     */
+    versionTag: string;
+    /**
+     * The dist-tag to create or move (e.g. "latest")
+     */
+    distTag: string;
+}
+
+
+export interface IAddDistTagResult
+{
+    /**
+     * The publish commit the dist-tag now points to
+     */
+    publishCommit: CommitHash;
+    /**
+     * The publish commit the dist-tag pointed to before it was moved.
+     * Undefined if the dist-tag did not previously exist.
+     */
+    previousPublishCommit: CommitHash | undefined;
+}
+
+
+export interface IRemoveDistTagOptions extends IDistTagOptions
+{
+    /**
+     * The dist-tag to remove
+     */
+    distTag: string;
+}
+
+
+export interface IDistTag
+{
+    /**
+     * The name of the dist-tag
+     */
+    name: string;
+    /**
+     * The publish commit the dist-tag points to
+     */
+    publishCommit: CommitHash;
+    /**
+     * The version tags that point to the same publish commit
+     */
+    versionTags: Array<string>;
+    /**
+     * The person that last set the dist-tag
+     */
+    tagger: string | undefined;
+    /**
+     * When the dist-tag was last set
+     */
+    date: Date | undefined;
+}
+
+
+/**
+ * Creates or moves a dist-tag so that it points to an existing publish commit.
+ * Only the dist-tag is pushed to the remote.
+ * @param options - Options identifying the dist-tag and the publish commit
+ * @return A Promise for a description of the change
+ */
+export async function addDistTag(options: IAddDistTagOptions): Promise<IAddDistTagResult>
+{
+    checkDistTagName(options.packageDir, options.distTag);
+
+    const repo = await GitRepo.fromSubdirectory(options.packageDir);
+    const remote = await resolvePublishRemote(repo, options.remote);
+    await repo.fetchTags(remote.name);
+
+    const publishTags = await getPublishTags(repo);
+    const versionTag = _.find(publishTags, (curTag) => curTag.tagName === options.versionTag);
+    if (!versionTag)
+    {
+        throw new Error(`"${options.versionTag}" is not a tag created by publishtogit.`);
+    }
+
+    const previousTag = _.find(publishTags, (curTag) => curTag.tagName === options.distTag);
+    const message = await getDistTagMessage(repo, options.distTag, versionTag);
+
+    await repo.createTag(options.distTag, message, true, versionTag.publishCommit);
+    await repo.pushTag(options.distTag, remote.name, true);
+
+    return {
+        publishCommit:         versionTag.publishCommit,
+        previousPublishCommit: previousTag && previousTag.publishCommit
+    };
+}
+
+
+/**
+ * Removes a dist-tag from the local repo and the remote.
+ * @param options - Options identifying the dist-tag
+ * @return A Promise that resolves when the dist-tag has been removed
+ */
+export async function removeDistTag(options: IRemoveDistTagOptions): Promise<void>
+{
+    checkDistTagName(options.packageDir, options.distTag);
+
+    const repo = await GitRepo.fromSubdirectory(options.packageDir);
+    const remote = await resolvePublishRemote(repo, options.remote);
+    await repo.fetchTags(remote.name);
+
+    if (!await repo.hasTag(options.distTag))
+    {
+        throw new Error(`The dist-tag "${options.distTag}" does not exist.`);
+    }
+
+    await repo.deleteRemoteTags([options.distTag], remote.name);
+    await repo.deleteTag(options.distTag);
+}
+
+
+/**
+ * Lists the dist-tags that have been applied to publish commits.
+ * @param options - Options identifying the repo
+ * @return A Promise for the dist-tags sorted by name
+ */
+export async function listDistTags(options: IDistTagOptions): Promise<Array<IDistTag>>
+{
+    const repo = await GitRepo.fromSubdirectory(options.packageDir);
+    const remote = await resolvePublishRemote(repo, options.remote);
+    await repo.fetchTags(remote.name);
+
+    const projectConfig = getProjectConfig(options.packageDir);
+    const publishTags = await getPublishTags(repo);
+    const [versionTags, distTags] = _.partition(publishTags, (curTag) => {
+        return isImmutableTag(curTag.tagName, projectConfig.immutableTagPattern, projectConfig.snapshotTagPrefix);
+    });
+
+    return _.map(distTags, (curDistTag) => {
+        const sameCommit = _.filter(versionTags, (curVersionTag) => {
+            return curVersionTag.publishCommit.toString() === curDistTag.publishCommit.toString();
+        });
+        return {
+            name:          curDistTag.tagName,
+            publishCommit: curDistTag.publishCommit,
+            versionTags:   _.map(sameCommit, (curVersionTag) => curVersionTag.tagName),
+            tagger:        curDistTag.tagger,
+            date:          curDistTag.date
+        };
+    });
+}
+
+
+/**
+ * Makes sure the specified name can be used as a dist-tag.
+ * @param packageDir - The directory containing the package
+ * @param distTag - The proposed dist-tag name
+ */
+function checkDistTagName(packageDir: Directory, distTag: string): void
+{
+    // Immutable tags must never be moved or deleted, so do not allow them to
+    // be used as dist-tags.
+    const projectConfig = getProjectConfig(packageDir);
+    if (isImmutableTag(distTag, projectConfig.immutableTagPattern, projectConfig.snapshotTagPrefix))
+    {
+        throw new Error(`"${distTag}" is an immutable tag and cannot be used as a dist-tag.`);
+    }
+}
+
+
+/**
+ * Builds the annotation for a dist-tag.  The version tag's annotation is
+ * copied (so the dist-tag is recognized as a publish tag) and a record of who
+ * set the dist-tag and when is added.
+ * @param repo - The repo the dist-tag is being created in
+ * @param distTag - The name of the dist-tag
+ * @param versionTag - The version tag the dist-tag will point to
+ * @return A Promise for the annotation
+ */
+async function getDistTagMessage(repo: GitRepo, distTag: string, versionTag: IPublishTag): Promise<string>
+{
+    const userName = await repo.getConfigValue("user.name");
+    const userEmail = await repo.getConfigValue("user.email");
+    const user = _.compact([userName, userEmail && `<${userEmail}>`]).join(" ") || "unknown";
+
+    const [firstLine, ...otherLines] = versionTag.message.split("\n");
+    return [
+        firstLine,
+        `Dist-tag: ${distTag} -> ${versionTag.tagName}`,
+        `Set by: ${user}`,
+        `Set on: ${new Date().toISOString()}`
+    ]
+    .concat(otherLines)
+    .join("\n");
+}
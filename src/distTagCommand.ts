@@ -0,0 +1,158 @@
+import * as _ from "lodash";
+import * as yargs from "yargs";
+import {Directory} from "./depot/directory";
+import {addDistTag, removeDistTag, listDistTags} from "./distTag";
+import {formatTable, printError} from "./cliHelpers";
+
+
+/**
+ * Adds the options shared by all dist-tag subcommands.
+ */
+function addCommonOptions(argv: yargs.Argv): yargs.Argv
+{
+    return argv
+    .option("package-dir",
+        {
+            type: "string",
+            default: ".",
+            demandOption: false,
+            describe: "The directory containing the package"
+        }
+    )
+    .option("remote",
+        {
+            type: "string",
+            demandOption: false,
+            describe: "The remote the dist-tags live on (defaults to the remote tracked by the current branch)"
+        }
+    );
+}
+
+
+const addCommand: yargs.CommandModule = {
+    command: "add <versionTag> <distTag>",
+    describe: "Point a dist-tag at the publish commit of an existing version tag",
+    builder: function builder(argv: yargs.Argv): yargs.Argv {
+        return addCommonOptions(argv
+        .positional("versionTag", {
+            describe: "The version tag to point the dist-tag at (e.g. v1.2.3)",
+            type: "string"
+        })
+        .positional("distTag", {
+            describe: "The dist-tag to create or move (e.g. latest)",
+            type: "string"
+        }));
+    },
+    handler: function handler(args: yargs.Arguments): void {
+        addDistTag({
+            packageDir: new Directory(args.packageDir),
+            remote:     args.remote,
+            versionTag: String(args.versionTag),
+            distTag:    String(args.distTag)
+        })
+        .then((result) => {
+            if (result.previousPublishCommit)
+            {
+                console.log(
+                    `Moved ${args.distTag} from ${result.previousPublishCommit.toShortString()} ` +
+                    `to ${args.versionTag} (${result.publishCommit.toShortString()}).`
+                );
+            }
+            else
+            {
+                console.log(`Added ${args.distTag} at ${args.versionTag} (${result.publishCommit.toShortString()}).`);
+            }
+            process.exit(0);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
+        });
+    }
+};
+
+
+const rmCommand: yargs.CommandModule = {
+    command: "rm <distTag>",
+    describe: "Remove a dist-tag",
+    builder: function builder(argv: yargs.Argv): yargs.Argv {
+        return addCommonOptions(argv
+        .positional("distTag", {
+            describe: "The dist-tag to remove",
+            type: "string"
+        }));
+    },
+    handler: function handler(args: yargs.Arguments): void {
+        removeDistTag({
+            packageDir: new Directory(args.packageDir),
+            remote:     args.remote,
+            distTag:    String(args.distTag)
+        })
+        .then(() => {
+            console.log(`Removed ${args.distTag}.`);
+            process.exit(0);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
+        });
+    }
+};
+
+
+const lsCommand: yargs.CommandModule = {
+    command: "ls",
+    describe: "List the dist-tags and the versions they point to",
+    builder: addCommonOptions,
+    handler: function handler(args: yargs.Arguments): void {
+        listDistTags({
+            packageDir: new Directory(args.packageDir),
+            remote:     args.remote
+        })
+        .then((distTags) => {
+            if (distTags.length === 0)
+            {
+                console.log("No dist-tags were found.");
+            }
+            else
+            {
+                const header = ["Dist-tag", "Version", "Publish commit", "Tagger", "Date"];
+                const rows = _.map(distTags, (curDistTag) => {
+                    return [
+                        curDistTag.name,
+                        curDistTag.versionTags.join(", "),
+                        curDistTag.publishCommit.toShortString(),
+                        curDistTag.tagger || "",
+                        curDistTag.date ? curDistTag.date.toISOString() : ""
+                    ];
+                });
+                console.log(formatTable([header].concat(rows)));
+            }
+            process.exit(0);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
+        });
+    }
+};
+
+
+/**
+ * The "dist-tag" command.  Manages floating tags (such as "latest") that point
+ * to existing publish commits.
+ */
+export const distTagCommand: yargs.CommandModule = {
+    command: "dist-tag",
+    describe: "Manage floating tags (e.g. latest) on existing publish commits",
+    builder: function builder(argv: yargs.Argv): yargs.Argv {
+        return argv
+        .command(addCommand)
+        .command(rmCommand)
+        .command(lsCommand)
+        .demandCommand(1, "Specify a dist-tag subcommand (add, rm or ls).");
+    },
+    handler: function handler(): void {
+        // The subcommands do all of the work.
+    }
+};
@@ -0,0 +1,323 @@
+import * as _ from "lodash";
+import * as yargs from "yargs";
+import {Directory} from "./depot/directory";
+import {publishToGit, publishWorkspacesToGit} from "./publishToGitRepo";
+import {PublishProgress, IPublishProgressEvent} from "./publishProgress";
+import {printError, formatTable} from "./cliHelpers";
+
+
+/**
+ * The options that do not apply when publishing workspaces.
+ */
+const nonWorkspaceOptions = [
+    "tag", "tag-version", "tag-major-minor", "bump", "preid", "channel", "snapshot", "require-changelog",
+    "release-notes", "release-notes-file", "force-tags"
+];
+
+
+/**
+ * The "git" command.  This is shared by the "publishto" script (as its "git"
+ * command) and the "publishtogit" script (as its default command).
+ */
+export const gitCommand: yargs.CommandModule = {
+    command: "git [packageDir]",
+    describe: "Publish to a publish commit in the project's Git repository",
+    builder: function builder(argv: yargs.Argv): yargs.Argv {
+        return argv
+        .positional("packageDir", {
+            describe: "The directory containing the package to be published",
+            type: "string",
+            default: "."
+        })
+        .option("tag",
+            {
+                demandOption: false,
+                describe: "Apply the specified tag to the publish commit (can be used multiple times)."
+            }
+        )
+        .option("tag-version",
+            {
+                type: "boolean",
+                default: undefined,
+                demandOption: false,
+                describe: "Apply a tag with the project's version number (from package.json) to the publish commit"
+            }
+        )
+        .option("bump",
+            {
+                type: "string",
+                choices: ["patch", "minor", "major", "prerelease", "auto"],
+                demandOption: false,
+                describe: "Bump the version in package.json, commit and push it, and then publish it " +
+                          "(implies --tag-version).  \"auto\" chooses the bump from Conventional Commits messages."
+            }
+        )
+        .option("preid",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "The prerelease identifier to use with --bump prerelease (e.g. beta)"
+            }
+        )
+        .option("channel",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "Publish the next prerelease of the package's version on the specified channel " +
+                          "(e.g. v1.2.3-beta.4) and move the channel's tag (e.g. beta) to it"
+            }
+        )
+        .option("snapshot",
+            {
+                type: "boolean",
+                default: false,
+                demandOption: false,
+                describe: "Publish a snapshot of the current commit with a version such as " +
+                          "1.2.3-snapshot.20190411.abc1234, tagged under the snapshot tag prefix (default: snapshots/)"
+            }
+        )
+        .option("tag-major-minor",
+            {
+                type: "boolean",
+                default: undefined,
+                demandOption: false,
+                describe: "When using --tag-version, also create or move vMAJOR and vMAJOR.MINOR tags"
+            }
+        )
+        .option("require-changelog",
+            {
+                type: "boolean",
+                default: false,
+                demandOption: false,
+                describe: "When using --tag-version, fail if CHANGELOG.md does not have an entry for the version"
+            }
+        )
+        .option("release-notes",
+            {
+                type: "boolean",
+                default: undefined,
+                demandOption: false,
+                describe: "Include release notes generated from the commits since the previous version in the tag annotation"
+            }
+        )
+        .option("release-notes-file",
+            {
+                type: "boolean",
+                default: undefined,
+                demandOption: false,
+                describe: "Also write the generated release notes to RELEASE_NOTES.md in the published content"
+            }
+        )
+        .option("force-tags",
+            {
+                type: "boolean",
+                default: false,
+                demandOption: false,
+                describe: "Forces floating tags (e.g. latest) to be applied, moving any that already exist.  " +
+                          "Version tags are never moved."
+            }
+        )
+        .option("dry-run",
+            {
+                type: "boolean",
+                default: false,
+                demandOption: false,
+                describe: "Perform all operations but do not push the publish commit to the project's repo"
+            }
+        )
+        .option("remove-types",
+            {
+                type: "boolean",
+                default: false,
+                demandOption: false,
+                describe: "Remove '@types' packages from package.json in published commit " +
+                          "(shorthand for --transform remove-types)"
+            }
+        )
+        .option("transform",
+            {
+                type: "array",
+                demandOption: false,
+                describe: "Apply the specified package.json transforms (built-in names or module paths) " +
+                          "in order, instead of the configured transforms"
+            }
+        )
+        .option("workspaces",
+            {
+                type: "array",
+                demandOption: false,
+                describe: "Publish each workspace package (found using package.json \"workspaces\" or the " +
+                          "specified globs) to its own publish commit tagged <name>@<version>"
+            }
+        )
+        .option("clean-build",
+            {
+                type: "boolean",
+                default: undefined,
+                demandOption: false,
+                describe: "Run \"npm ci\" and the build script in a fresh clone of the commit being published and pack from there"
+            }
+        )
+        .option("remote",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "The remote to publish to (default: the remote tracked by the current branch)"
+            }
+        )
+        .option("source-branch",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "The branch being published when HEAD is detached (e.g. in CI).  The current commit must be " +
+                          "contained in this branch on the remote.  Detected automatically on common CI systems."
+            }
+        )
+        .option("target-repo",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "Publish to the specified repository URL instead of the repository in package.json"
+            }
+        )
+        .option("tmp-dir",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "The temporary directory to use (default: ~/.publishtogit/tmp)"
+            }
+        )
+        .epilog(
+            "Default settings can be specified in a .publishtogitrc.json file or a \"publishtogit\" property in " +
+            "package.json.  These are overridden by PUBLISHTOGIT_* environment variables, which are overridden by " +
+            "command line options."
+        );
+    },
+    handler: function handler(args: yargs.Arguments): void {
+        const progress = new PublishProgress();
+        progress.on("progress", (event: IPublishProgressEvent) => {
+            console.log(event.message);
+        });
+
+        if (args.workspaces !== undefined)
+        {
+            publishWorkspaces(args, progress);
+            return;
+        }
+
+        publishToGit({
+            packageDir:       new Directory(args.packageDir),
+            tags:             args.tag === undefined ? undefined : [].concat(args.tag),
+            tagVersion:       args["tag-version"],
+            tagMajorMinor:    args["tag-major-minor"],
+            bump:             args.bump,
+            channel:          args.channel,
+            snapshot:         args.snapshot,
+            preid:            args.preid,
+            requireChangelog: args["require-changelog"],
+            releaseNotes:     args["release-notes"],
+            releaseNotesFile: args["release-notes-file"],
+            cleanBuild:       args["clean-build"],
+            forceTags:        args["force-tags"],
+            dryRun:           args["dry-run"],
+            removeTypes:      args["remove-types"],
+            transforms:       args.transform === undefined ? undefined : _.map(args.transform, String),
+            remote:           args.remote,
+            sourceBranch:     args["source-branch"],
+            targetRepo:       args["target-repo"],
+            tmpDir:           args["tmp-dir"] === undefined ? undefined : new Directory(args["tmp-dir"]),
+            progress:         progress
+        })
+        .then((result) => {
+            if (result.dryRun)
+            {
+                const msg = [
+                    "Running in dry-run mode.  The repository in the following temporary directory",
+                    "has been left ready to push to a public server.",
+                    result.tmpDir.toString()
+                ];
+                console.log(msg.join("\n"));
+            }
+            else
+            {
+                // Tell the user how to include the published repository into
+                // another project's dependencies.
+                const doneMessage = [
+                    "Done.",
+                    "To include the published library in a Node.js project, execute the following command:"
+                ].concat(_.map(result.installUrls, (curUrl) => `npm install ${curUrl}`));
+                console.log(doneMessage.join("\n"));
+            }
+            process.exit(0);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
+        });
+    }
+};
+
+
+/**
+ * Handles the "git" command when the --workspaces option is used.
+ * @param args - The command line arguments
+ * @param progress - The emitter to report progress to
+ */
+function publishWorkspaces(args: yargs.Arguments, progress: PublishProgress): void
+{
+    const unsupported = _.filter(nonWorkspaceOptions, (curOption) => args[curOption] !== undefined && args[curOption] !== false);
+    if (unsupported.length > 0)
+    {
+        const optionNames = _.map(unsupported, (curOption) => `--${curOption}`);
+        printError(new Error(`The following options cannot be used with --workspaces: ${optionNames.join(", ")}.`));
+        process.exit(1);
+    }
+
+    publishWorkspacesToGit({
+        packageDir:   new Directory(args.packageDir),
+        workspaces:   _.map(args.workspaces, String),
+        dryRun:       args["dry-run"],
+        removeTypes:  args["remove-types"],
+        transforms:   args.transform === undefined ? undefined : _.map(args.transform, String),
+        cleanBuild:   args["clean-build"],
+        remote:       args.remote,
+        sourceBranch: args["source-branch"],
+        targetRepo:   args["target-repo"],
+        tmpDir:       args["tmp-dir"] === undefined ? undefined : new Directory(args["tmp-dir"]),
+        progress:     progress
+    })
+    .then((result) => {
+        const header = ["Package", "Tag", "Publish Commit"];
+        const rows = _.map(result.packages, (curPkg) => {
+            return [
+                curPkg.name,
+                curPkg.tag,
+                curPkg.publishCommitHash ? curPkg.publishCommitHash.toShortString() : "(already published)"
+            ];
+        });
+        console.log(formatTable([header].concat(rows)));
+
+        if (result.dryRun)
+        {
+            const msg = [
+                "Running in dry-run mode.  The repository in the following temporary directory",
+                "has been left ready to push to a public server.",
+                result.tmpDir ? result.tmpDir.toString() : "(none)"
+            ];
+            console.log(msg.join("\n"));
+        }
+        else
+        {
+            const doneMessage = [
+                "Done.",
+                "To include the published libraries in a Node.js project, execute the following commands:"
+            ].concat(_.map(result.packages, (curPkg) => `npm install ${curPkg.installUrl}`));
+            console.log(doneMessage.join("\n"));
+        }
+        process.exit(0);
+    })
+    .catch((err) => {
+        printError(err);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,22 @@
+//
+// The programmatic API of this package.
+//
+export {
+    publishToGit, IPublishToGitOptions, IPublishToGitResult, VersionBump,
+    publishWorkspacesToGit, IPublishWorkspacesOptions, IPublishWorkspacesResult, IPublishedWorkspacePackage
+} from "./publishToGitRepo";
+export {publishToDir, IPublishToDirOptions, IPublishToDirResult} from "./publishToDir";
+export {listPublishes, IListPublishesOptions} from "./listPublishes";
+export {tracePublish, ITracePublishOptions, ITracePublishResult} from "./tracePublish";
+export {verifyPublish, IVerifyPublishOptions, IVerifyPublishResult} from "./verifyPublish";
+export {
+    addDistTag, removeDistTag, listDistTags,
+    IDistTagOptions, IAddDistTagOptions, IAddDistTagResult, IRemoveDistTagOptions, IDistTag
+} from "./distTag";
+export {pruneTags, IPruneTagsOptions, IPruneTagsResult} from "./pruneTags";
+export {TransformSpec, PackageJsonTransform, ITransformContext, transformNames} from "./transforms";
+export {IPublishTag, parsePublishAnnotation} from "./publishTags";
+export {PublishProgress, PublishPhase, IPublishProgressEvent} from "./publishProgress";
+export {Directory} from "./depot/directory";
+export {CommitHash} from "./depot/commitHash";
+export {IGitTagDetails} from "./depot/gitRepo";
@@ -0,0 +1,84 @@
+import * as _ from "lodash";
+import * as yargs from "yargs";
+import {Directory} from "./depot/directory";
+import {listPublishes} from "./listPublishes";
+import {formatTable, printError} from "./cliHelpers";
+
+
+/**
+ * The "list" command.  Lists the versions that have been published and the
+ * source commits they were built from.
+ */
+export const listCommand: yargs.CommandModule = {
+    command: "list [packageDir]",
+    describe: "List the published versions and their source commits",
+    builder: function builder(argv: yargs.Argv): yargs.Argv {
+        return argv
+        .positional("packageDir", {
+            describe: "The directory containing the package",
+            type: "string",
+            default: "."
+        })
+        .option("remote",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "Fetch tags from the specified remote before listing them"
+            }
+        )
+        .option("json",
+            {
+                type: "boolean",
+                default: false,
+                demandOption: false,
+                describe: "Output the results as JSON"
+            }
+        );
+    },
+    handler: function handler(args: yargs.Arguments): void {
+        listPublishes({
+            packageDir: new Directory(args.packageDir),
+            remote:     args.remote
+        })
+        .then((publishTags) => {
+            if (args.json)
+            {
+                const records = _.map(publishTags, (curTag) => {
+                    return {
+                        tag:           curTag.tagName,
+                        publishCommit: curTag.publishCommit.toString(),
+                        sourceCommit:  curTag.sourceCommit.toString(),
+                        sourceBranch:  curTag.sourceBranch,
+                        tagger:        curTag.tagger,
+                        date:          curTag.date && curTag.date.toISOString()
+                    };
+                });
+                console.log(JSON.stringify(records, undefined, 4));
+            }
+            else if (publishTags.length === 0)
+            {
+                console.log("No published versions were found.");
+            }
+            else
+            {
+                const header = ["Tag", "Publish commit", "Source commit", "Source branch", "Tagger", "Date"];
+                const rows = _.map(publishTags, (curTag) => {
+                    return [
+                        curTag.tagName,
+                        curTag.publishCommit.toShortString(),
+                        curTag.sourceCommit.toShortString(),
+                        curTag.sourceBranch,
+                        curTag.tagger || "",
+                        curTag.date ? curTag.date.toISOString() : ""
+                    ];
+                });
+                console.log(formatTable([header].concat(rows)));
+            }
+            process.exit(0);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
+        });
+    }
+};
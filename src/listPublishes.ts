@@ -0,0 +1,34 @@
+import {Directory} from "./depot/directory";
+import {GitRepo} from "./depot/gitRepo";
+import {getPublishTags, IPublishTag} from "./publishTags";
+
+
+export interface IListPublishesOptions
+{
+    /**
+     * The directory containing the package whose publishes are to be listed
+     */
+    packageDir: Directory;
+    /**
+     * If specified, tags are fetched from this remote before being listed
+     */
+    remote?: string;
+}
+
+
+/**
+ * Lists the publish tags that have been applied in a package's Git repo.
+ * @param options - Options controlling which tags are listed
+ * @return A Promise for the publish tags sorted by version
+ */
+export async function listPublishes(options: IListPublishesOptions): Promise<Array<IPublishTag>>
+{
+    const repo = await GitRepo.fromSubdirectory(options.packageDir);
+
+    if (options.remote)
+    {
+        await repo.fetch(options.remote, true);
+    }
+
+    return getPublishTags(repo);
+}
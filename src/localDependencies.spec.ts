@@ -0,0 +1,119 @@
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {findLocalDependencies, fixLocalDependencies, isLocalDependencySpec} from "./localDependencies";
+
+
+describe("isLocalDependencySpec()", () => {
+
+
+    it("recognizes file:, link:, portal: and workspace: specifiers", () => {
+        expect(isLocalDependencySpec("file:../mylib")).toEqual(true);
+        expect(isLocalDependencySpec("link:../mylib")).toEqual(true);
+        expect(isLocalDependencySpec("portal:../mylib")).toEqual(true);
+        expect(isLocalDependencySpec("workspace:*")).toEqual(true);
+        expect(isLocalDependencySpec("workspace:^1.2.3")).toEqual(true);
+    });
+
+
+    it("recognizes relative, absolute and home directory paths", () => {
+        expect(isLocalDependencySpec("../mylib")).toEqual(true);
+        expect(isLocalDependencySpec("./mylib")).toEqual(true);
+        expect(isLocalDependencySpec("..")).toEqual(true);
+        expect(isLocalDependencySpec("/home/me/mylib")).toEqual(true);
+        expect(isLocalDependencySpec("~/mylib")).toEqual(true);
+        expect(isLocalDependencySpec("  file:../mylib  ")).toEqual(true);
+    });
+
+
+    it("does not flag version ranges, tags and URLs", () => {
+        expect(isLocalDependencySpec("^1.2.3")).toEqual(false);
+        expect(isLocalDependencySpec("latest")).toEqual(false);
+        expect(isLocalDependencySpec("git+https://github.com/me/mylib.git#v1.2.0")).toEqual(false);
+        expect(isLocalDependencySpec("me/mylib")).toEqual(false);
+        expect(isLocalDependencySpec("npm:other@1.0.0")).toEqual(false);
+    });
+
+
+});
+
+
+describe("findLocalDependencies()", () => {
+
+
+    it("finds local dependencies in the properties consumers install", () => {
+        const pkgJson = {
+            dependencies:         {a: "file:../a", b: "^1.0.0"},
+            optionalDependencies: {c: "link:../c"},
+            peerDependencies:     {d: "workspace:*"},
+            devDependencies:      {e: "file:../e"}
+        };
+        expect(findLocalDependencies(pkgJson)).toEqual([
+            {name: "a", spec: "file:../a", property: "dependencies"},
+            {name: "c", spec: "link:../c", property: "optionalDependencies"},
+            {name: "d", spec: "workspace:*", property: "peerDependencies"}
+        ]);
+    });
+
+
+});
+
+
+describe("fixLocalDependencies()", () => {
+
+
+    const tmpDir = new Directory(__dirname, "..", "tmp", "localDependencies");
+    const pkgJson = new File(tmpDir, "package.json");
+
+
+    beforeEach(() => {
+        tmpDir.emptySync();
+    });
+
+
+    it("rewrites local dependencies that have a configured rewrite", () => {
+        pkgJson.writeJsonSync({
+            name:            "sample",
+            dependencies:    {mylib: "file:../mylib", lodash: "^4.0.0"},
+            devDependencies: {tools: "file:../tools"}
+        });
+
+        const rewritten = fixLocalDependencies(tmpDir, {mylib: "git+https://github.com/me/mylib.git#v1.2.0"});
+
+        expect(rewritten).toEqual([{name: "mylib", spec: "file:../mylib", property: "dependencies"}]);
+        expect(pkgJson.readJsonSync<any>()).toEqual({
+            name:            "sample",
+            dependencies:    {mylib: "git+https://github.com/me/mylib.git#v1.2.0", lodash: "^4.0.0"},
+            devDependencies: {tools: "file:../tools"}
+        });
+    });
+
+
+    it("leaves package.json alone when there are no local dependencies", () => {
+        pkgJson.writeJsonSync({name: "sample", dependencies: {lodash: "^4.0.0"}});
+        expect(fixLocalDependencies(tmpDir, {lodash: "^5.0.0"})).toEqual([]);
+        expect(pkgJson.readJsonSync<any>()).toEqual({name: "sample", dependencies: {lodash: "^4.0.0"}});
+    });
+
+
+    it("throws an error listing the local dependencies that cannot be rewritten", () => {
+        pkgJson.writeJsonSync({
+            name:             "sample",
+            dependencies:     {mylib: "file:../mylib", other: "~/other"},
+            peerDependencies: {core: "workspace:*"}
+        });
+
+        expect(() => fixLocalDependencies(tmpDir, {other: "^2.0.0"})).toThrowError(
+            "The published package.json contains local dependencies that consumers will not be able to install:\n" +
+            "    mylib: \"file:../mylib\" (dependencies)\n" +
+            "    core: \"workspace:*\" (peerDependencies)\n" +
+            "Add them to the dependencyRewrites setting to rewrite them to git URLs or version ranges."
+        );
+    });
+
+
+    it("throws an error when there is no package.json", () => {
+        expect(() => fixLocalDependencies(tmpDir, {})).toThrowError("Did not find a package.json file in the published contents.");
+    });
+
+
+});
@@ -0,0 +1,116 @@
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+
+
+/**
+ * The package.json properties containing dependencies that consumers of the
+ * published package install.  devDependencies are not installed by consumers
+ * and are therefore not checked.
+ */
+const installedDependencyProperties = ["dependencies", "optionalDependencies", "peerDependencies"];
+
+//
+// A regex matching dependency specifiers that refer to the local file system
+// or to a workspace, none of which can be resolved by consumers of the
+// published package (e.g. "file:../mylib", "link:../mylib", "workspace:*",
+// "../mylib" or "~/mylib").
+//
+const localSpecRegex = /^(?:file:|link:|portal:|workspace:|\.{1,2}(?:\/|\\|$)|~\/|\/)/;
+
+
+/**
+ * A dependency that refers to a local path or workspace.
+ */
+export interface ILocalDependency
+{
+    /**
+     * The name of the package depended upon
+     */
+    name: string;
+    /**
+     * The dependency specifier (e.g. "file:../mylib")
+     */
+    spec: string;
+    /**
+     * The package.json property containing the dependency (e.g.
+     * "dependencies")
+     */
+    property: string;
+}
+
+
+/**
+ * Determines whether a dependency specifier refers to a local path or
+ * workspace.
+ * @param spec - The dependency specifier (e.g. "^1.2.3" or "file:../mylib")
+ * @return true if the specifier can only be resolved locally
+ */
+export function isLocalDependencySpec(spec: string): boolean
+{
+    return localSpecRegex.test(_.trim(spec));
+}
+
+
+/**
+ * Finds the local dependencies in package.json contents.
+ * @param pkgJson - The contents of package.json
+ * @return The local dependencies
+ */
+export function findLocalDependencies(pkgJson: any): Array<ILocalDependency>
+{
+    return _.flatMap(installedDependencyProperties, (curProp) => {
+        return _.chain(pkgJson[curProp] || {})
+        .toPairs()
+        .filter(([name, spec]) => _.isString(spec) && isLocalDependencySpec(spec))
+        .map(([name, spec]) => ({name: name, spec: spec, property: curProp}))
+        .value();
+    });
+}
+
+
+/**
+ * Makes sure the package.json in a directory of published content does not
+ * contain local dependencies.  Local dependencies that have a configured
+ * rewrite are changed to the configured specifier (a git URL or version range).
+ * @param publishDir - The directory containing the published content
+ * @param rewrites - Replacement specifiers keyed by dependency name (from the
+ * dependencyRewrites setting)
+ * @return The dependencies that were rewritten.  An Error is thrown if any
+ * local dependencies remain.
+ */
+export function fixLocalDependencies(publishDir: Directory, rewrites: {[name: string]: string}): Array<ILocalDependency>
+{
+    const pkgJson = new File(publishDir, "package.json");
+    if (!pkgJson.existsSync())
+    {
+        throw new Error("Did not find a package.json file in the published contents.");
+    }
+
+    const pkgJsonContents = pkgJson.readJsonSync<any>();
+    const localDependencies = findLocalDependencies(pkgJsonContents);
+
+    const [rewritable, remaining] = _.partition(localDependencies, (curDep) => rewrites[curDep.name] !== undefined);
+    if (remaining.length > 0)
+    {
+        const descriptions = _.map(remaining, (curDep) => `    ${curDep.name}: "${curDep.spec}" (${curDep.property})`);
+        throw new Error(
+            [
+                "The published package.json contains local dependencies that consumers will not be able to install:"
+            ]
+            .concat(descriptions)
+            .concat("Add them to the dependencyRewrites setting to rewrite them to git URLs or version ranges.")
+            .join("\n")
+        );
+    }
+
+    if (rewritable.length > 0)
+    {
+        _.forEach(rewritable, (curDep) => {
+            pkgJsonContents[curDep.property][curDep.name] = rewrites[curDep.name];
+        });
+        pkgJson.writeJsonSync(pkgJsonContents);
+    }
+
+    return rewritable;
+}
@@ -0,0 +1,81 @@
+import {CommitHash} from "./depot/commitHash";
+import {getNextChannelVersion, getSnapshotVersion} from "./prereleaseVersion";
+
+
+describe("getSnapshotVersion()", () => {
+
+
+    const commit = CommitHash.fromString("abc1234def5678abc1234def5678abc1234def56")!;
+
+
+    it("appends the UTC date and short commit hash to the base version", () => {
+        const date = new Date(Date.UTC(2019, 3, 11, 23, 59, 59));
+        expect(getSnapshotVersion("1.2.3", commit, date)).toEqual("1.2.3-snapshot.20190411.abc1234");
+    });
+
+
+    it("ignores the prerelease part of the package's version", () => {
+        const date = new Date(Date.UTC(2019, 0, 2));
+        expect(getSnapshotVersion("1.2.3-beta.4", commit, date)).toEqual("1.2.3-snapshot.20190102.abc1234");
+    });
+
+
+    it("prefixes short hashes that consist only of digits", () => {
+        const numericCommit = CommitHash.fromString("0123456789abcdef0123456789abcdef01234567")!;
+        const date = new Date(Date.UTC(2019, 3, 11));
+        expect(getSnapshotVersion("1.2.3", numericCommit, date)).toEqual("1.2.3-snapshot.20190411.g0123456");
+    });
+
+
+    it("throws an error when the package's version is not a semantic version", () => {
+        expect(() => getSnapshotVersion("latest", commit, new Date())).toThrowError(
+            "The package's version (latest) is not a valid semantic version."
+        );
+    });
+
+
+});
+
+
+describe("getNextChannelVersion()", () => {
+
+
+    it("starts numbering at 1 when the channel has no prereleases yet", () => {
+        expect(getNextChannelVersion("1.2.3", "beta", [])).toEqual("1.2.3-beta.1");
+        expect(getNextChannelVersion("1.2.3", "beta", ["v1.2.2", "v1.2.3-rc.4"])).toEqual("1.2.3-beta.1");
+    });
+
+
+    it("increments the highest existing prerelease number", () => {
+        const existingTags = ["v1.2.3-beta.1", "v1.2.3-beta.10", "v1.2.3-beta.2", "v1.2.4-beta.20", "v1.2.3-beta.x"];
+        expect(getNextChannelVersion("1.2.3", "beta", existingTags)).toEqual("1.2.3-beta.11");
+    });
+
+
+    it("ignores the prerelease part of the package's version", () => {
+        expect(getNextChannelVersion("1.2.3-beta.1", "beta", ["v1.2.3-beta.1"])).toEqual("1.2.3-beta.2");
+    });
+
+
+    it("refuses to publish prereleases of a version that has already been released", () => {
+        expect(() => getNextChannelVersion("1.2.3", "beta", ["v1.2.3-beta.1", "v1.2.3"])).toThrowError(
+            "Version 1.2.3 has already been released, so 1.2.3-beta.* would be older than it.  " +
+            "Bump the package's version (e.g. using --bump patch) before publishing to the beta channel."
+        );
+    });
+
+
+    it("throws an error for invalid channel names", () => {
+        expect(() => getNextChannelVersion("1.2.3", "1beta", [])).toThrow();
+        expect(() => getNextChannelVersion("1.2.3", "be.ta", [])).toThrow();
+    });
+
+
+    it("throws an error when the package's version is not a semantic version", () => {
+        expect(() => getNextChannelVersion("latest", "beta", [])).toThrowError(
+            "The package's version (latest) is not a valid semantic version."
+        );
+    });
+
+
+});
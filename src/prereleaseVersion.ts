@@ -0,0 +1,78 @@
+import * as _ from "lodash";
+import {CommitHash} from "./depot/commitHash";
+import {SemVer} from "./depot/semver";
+
+
+/**
+ * Determines the version of a snapshot.
+ * @param version - The package's version
+ * @param commit - The commit being published
+ * @param date - The date of the snapshot
+ * @return The snapshot version (e.g. "1.2.3-snapshot.20190411.abc1234")
+ */
+export function getSnapshotVersion(version: string, commit: CommitHash, date: Date): string
+{
+    const semver = SemVer.fromString(version);
+    if (!semver)
+    {
+        throw new Error(`The package's version (${version}) is not a valid semantic version.`);
+    }
+
+    const baseVersion = `${semver.major}.${semver.minor}.${semver.patch}`;
+    const datestamp = date.getUTCFullYear() +
+                      _.padStart(String(date.getUTCMonth() + 1), 2, "0") +
+                      _.padStart(String(date.getUTCDate()), 2, "0");
+
+    // Numeric prerelease identifiers cannot have leading zeros, so a short
+    // hash consisting only of digits is prefixed (like "git describe" does).
+    const shortHash = commit.toShortString();
+    const hashIdentifier = /^\d+$/.test(shortHash) ? `g${shortHash}` : shortHash;
+
+    return `${baseVersion}-snapshot.${datestamp}.${hashIdentifier}`;
+}
+
+
+/**
+ * Determines the next prerelease version on a channel.
+ * @param version - The package's version
+ * @param channel - The name of the channel (e.g. "beta")
+ * @param existingTags - The tags that already exist
+ * @return The next prerelease version (e.g. "1.2.3-beta.5" if v1.2.3-beta.4
+ * is the highest existing tag).  An Error is thrown if the package's version
+ * has already been released, because its prereleases would precede it.
+ */
+export function getNextChannelVersion(version: string, channel: string, existingTags: Array<string>): string
+{
+    if (!/^[A-Za-z][0-9A-Za-z-]*$/.test(channel))
+    {
+        throw new Error(
+            `Invalid channel name "${channel}".  Channel names must start with a letter and contain only letters, ` +
+            "digits and hyphens."
+        );
+    }
+
+    const semver = SemVer.fromString(version);
+    if (!semver)
+    {
+        throw new Error(`The package's version (${version}) is not a valid semantic version.`);
+    }
+
+    const baseVersion = `${semver.major}.${semver.minor}.${semver.patch}`;
+    if (_.includes(existingTags, `v${baseVersion}`))
+    {
+        throw new Error(
+            `Version ${baseVersion} has already been released, so ${baseVersion}-${channel}.* would be older than it.  ` +
+            `Bump the package's version (e.g. using --bump patch) before publishing to the ${channel} channel.`
+        );
+    }
+
+    const channelTagRegex = new RegExp(`^v${_.escapeRegExp(baseVersion)}-${_.escapeRegExp(channel)}\\.(\\d+)$`);
+    const existingNumbers = _.chain(existingTags)
+    .map((curTag) => channelTagRegex.exec(curTag))
+    .filter((match) => match !== null)
+    .map((match) => parseInt(match![1], 10))
+    .value();
+
+    const nextNumber = existingNumbers.length > 0 ? _.max(existingNumbers)! + 1 : 1;
+    return `${baseVersion}-${channel}.${nextNumber}`;
+}
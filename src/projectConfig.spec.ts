@@ -0,0 +1,53 @@
+import * as path from "path";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {getProjectConfig} from "./projectConfig";
+
+
+describe("getProjectConfig()", () => {
+
+
+    const repoDir = new Directory(__dirname, "..", "tmp", "projectConfig");
+    const pkgDir = new Directory(repoDir, "packages", "alpha");
+
+
+    beforeEach(() => {
+        repoDir.emptySync();
+        new Directory(repoDir, ".git").ensureExistsSync();
+        pkgDir.ensureExistsSync();
+        new File(repoDir, ".publishtogitrc.json").writeJsonSync({
+            branchRules: [{branch: "release/*", tags: ["*"]}],
+            remote:      "upstream",
+            transforms:  ["./tools/transform.js"]
+        });
+    });
+
+
+    it("inherits the settings of the repo root", () => {
+        const config = getProjectConfig(pkgDir);
+        expect(config.branchRules).toEqual([{branch: "release/*", tags: ["*"]}]);
+        expect(config.remote).toEqual("upstream");
+    });
+
+
+    it("resolves inherited transform modules relative to the directory containing them", () => {
+        const config = getProjectConfig(pkgDir);
+        expect(config.transforms).toEqual([path.join(repoDir.absPath(), "tools", "transform.js")]);
+    });
+
+
+    it("lets the package's settings override the repo root's", () => {
+        new File(pkgDir, ".publishtogitrc.json").writeJsonSync({remote: "origin"});
+        const config = getProjectConfig(pkgDir);
+        expect(config.remote).toEqual("origin");
+        expect(config.branchRules).toEqual([{branch: "release/*", tags: ["*"]}]);
+    });
+
+
+    it("lets overrides take precedence over all settings files", () => {
+        const config = getProjectConfig(pkgDir, {remote: "fork"});
+        expect(config.remote).toEqual("fork");
+    });
+
+
+});
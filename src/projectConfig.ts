@@ -0,0 +1,559 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {isStringArray} from "./depot/arrayHelpers";
+import {isLocalDependencySpec} from "./localDependencies";
+import {TransformSpec, validateTransformSpec, rebaseTransformSpec} from "./transforms";
+
+
+////////////////////////////////////////////////////////////////////////////////
+// Types
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Shell commands that are run at various points while publishing.  Each
+ * command is run in the package's directory.
+ */
+export interface IPublishHooks
+{
+    /**
+     * Run after all initial checks have passed, before the publish repo is
+     * cloned
+     */
+    prePublish?: string;
+    /**
+     * Run after the publish commit's tags have been pushed (not run during a
+     * dry run)
+     */
+    postPublish?: string;
+}
+
+
+/**
+ * Restricts what may be published from the branches matching a pattern.
+ */
+export interface IBranchRule
+{
+    /**
+     * A name used to identify the rule in error messages
+     */
+    name?: string;
+    /**
+     * A glob pattern matching branch names (e.g. "release/*")
+     */
+    branch: string;
+    /**
+     * Glob patterns matching the tags that may be applied.  If not
+     * specified, no tags may be applied.
+     */
+    tags?: Array<string>;
+    /**
+     * Glob patterns matching the channels that may be published to.  If not
+     * specified, no channels may be published to.
+     */
+    channels?: Array<string>;
+    /**
+     * Whether snapshots may be published.  Defaults to true.
+     */
+    snapshots?: boolean;
+}
+
+
+/**
+ * Project-level publish settings.  These may come from a .publishtogitrc.json
+ * file, a "publishtogit" property in package.json, environment variables or
+ * command line arguments.
+ */
+export interface IProjectConfig
+{
+    tags?: Array<string>;
+    tagVersion?: boolean;
+    tagMajorMinor?: boolean;
+    immutableTagPattern?: string;
+    releaseNotes?: boolean;
+    releaseNotesFile?: boolean;
+    snapshotTagPrefix?: string;
+    cleanBuild?: boolean;
+    buildScript?: string;
+    remote?: string;
+    transforms?: Array<TransformSpec>;
+    tmpDir?: string;
+    hooks?: IPublishHooks;
+    branchRules?: Array<IBranchRule>;
+    dependencyRewrites?: {[name: string]: string};
+}
+
+
+////////////////////////////////////////////////////////////////////////////////
+// Constants
+////////////////////////////////////////////////////////////////////////////////
+
+export const configFileName = ".publishtogitrc.json";
+export const packageJsonConfigKey = "publishtogit";
+
+/**
+ * The prefix used for snapshot tags when the snapshotTagPrefix setting is not
+ * specified.
+ */
+export const defaultSnapshotTagPrefix = "snapshots/";
+
+/**
+ * The package.json script run during a clean build when the buildScript
+ * setting is not specified.
+ */
+export const defaultBuildScript = "build";
+
+
+/**
+ * Validators for each supported setting.  Each returns a description of the
+ * problem or undefined if the value is valid.
+ */
+const settingValidators: {[key: string]: (value: any) => string | undefined} = {
+    tags:       (value) => isStringArray(value) ? undefined : "must be an array of strings",
+    tagVersion: (value) => _.isBoolean(value) ? undefined : "must be a boolean",
+    tagMajorMinor: (value) => _.isBoolean(value) ? undefined : "must be a boolean",
+    immutableTagPattern: validateRegex,
+    releaseNotes: (value) => _.isBoolean(value) ? undefined : "must be a boolean",
+    releaseNotesFile: (value) => _.isBoolean(value) ? undefined : "must be a boolean",
+    snapshotTagPrefix: (value) => _.isString(value) ? undefined : "must be a string",
+    cleanBuild: (value) => _.isBoolean(value) ? undefined : "must be a boolean",
+    buildScript: (value) => isNonEmptyString(value) ? undefined : "must be a non-empty string",
+    remote:     (value) => isNonEmptyString(value) ? undefined : "must be a non-empty string",
+    transforms: validateTransforms,
+    tmpDir:     (value) => isNonEmptyString(value) ? undefined : "must be a non-empty string",
+    hooks:      validateHooks,
+    branchRules: validateBranchRules,
+    dependencyRewrites: validateDependencyRewrites
+};
+
+
+const hookNames = ["prePublish", "postPublish"];
+const branchRuleKeys = ["name", "branch", "tags", "channels", "snapshots"];
+
+
+////////////////////////////////////////////////////////////////////////////////
+// Public Functions
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Determines the settings for the package in the specified directory.  Settings
+ * are merged in the following order (later sources override earlier ones): the
+ * configuration files found from the root of the Git repo down to the package
+ * directory (so that a package in a monorepo inherits the repo's settings),
+ * environment variables and finally the specified overrides (typically from
+ * the command line).
+ * @param packageDir - The directory containing the package being published
+ * @param overrides - Settings that override all others.  Undefined values are
+ * ignored.
+ * @return The merged settings
+ */
+export function getProjectConfig(packageDir: Directory, overrides: IProjectConfig = {}): IProjectConfig
+{
+    const fileConfigs = _.map(getConfigDirs(packageDir), (curDir) => loadProjectConfig(curDir));
+    return mergeConfigs(
+        ...fileConfigs,
+        getEnvConfig(process.env),
+        overrides
+    );
+}
+
+
+/**
+ * Reads the settings from the project's .publishtogitrc.json file or the
+ * "publishtogit" property of its package.json.
+ * @param packageDir - The directory containing the package being published
+ * @return The project's settings.  An empty object is returned if the project
+ * does not specify any.  An Error is thrown if the settings are invalid.
+ */
+export function loadProjectConfig(packageDir: Directory): IProjectConfig
+{
+    const rcFile = new File(packageDir, configFileName);
+    const pkgJsonFile = new File(packageDir, "package.json");
+
+    let rcConfig: any;
+    if (rcFile.existsSync())
+    {
+        try {
+            rcConfig = rcFile.readJsonSync<any>();
+        }
+        catch (err) {
+            throw new Error(`Could not parse ${rcFile.toString()}: ${err.message}`);
+        }
+    }
+
+    let pkgJsonConfig: any;
+    if (pkgJsonFile.existsSync())
+    {
+        pkgJsonConfig = pkgJsonFile.readJsonSync<any>()[packageJsonConfigKey];
+    }
+
+    if (rcConfig !== undefined && pkgJsonConfig !== undefined)
+    {
+        throw new Error(
+            `Settings were found in both ${rcFile.toString()} and the "${packageJsonConfigKey}" ` +
+            `property of ${pkgJsonFile.toString()}.  Only one may be used.`
+        );
+    }
+
+    let config: IProjectConfig = {};
+    if (rcConfig !== undefined)
+    {
+        config = validateConfig(rcConfig, rcFile.toString());
+    }
+    else if (pkgJsonConfig !== undefined)
+    {
+        config = validateConfig(pkgJsonConfig, `the "${packageJsonConfigKey}" property of ${pkgJsonFile.toString()}`);
+    }
+
+    // A relative tmpDir is relative to the package directory.
+    if (config.tmpDir)
+    {
+        config.tmpDir = path.resolve(packageDir.absPath(), config.tmpDir);
+    }
+
+    // Transform modules are relative to the directory containing the settings,
+    // which is not the package directory when they are inherited.
+    if (config.transforms)
+    {
+        config.transforms = _.map(config.transforms, (curSpec) => rebaseTransformSpec(curSpec, packageDir));
+    }
+
+    return config;
+}
+
+
+/**
+ * Reads settings from environment variables.  The following are supported:
+ *   PUBLISHTOGIT_TAGS        - A comma-separated list of tags
+ *   PUBLISHTOGIT_TAG_VERSION - "true" or "false"
+ *   PUBLISHTOGIT_TAG_MAJOR_MINOR - "true" or "false"
+ *   PUBLISHTOGIT_IMMUTABLE_TAG_PATTERN - A regular expression
+ *   PUBLISHTOGIT_RELEASE_NOTES - "true" or "false"
+ *   PUBLISHTOGIT_RELEASE_NOTES_FILE - "true" or "false"
+ *   PUBLISHTOGIT_SNAPSHOT_TAG_PREFIX - The prefix of snapshot tags
+ *   PUBLISHTOGIT_CLEAN_BUILD - "true" or "false"
+ *   PUBLISHTOGIT_BUILD_SCRIPT - The package.json script run during a clean
+ *                              build
+ *   PUBLISHTOGIT_REMOTE      - The name of the remote
+ *   PUBLISHTOGIT_TRANSFORMS  - A comma-separated list of transform names or
+ *                              module paths
+ *   PUBLISHTOGIT_TMP_DIR     - The temporary directory
+ * @param env - The environment variables
+ * @return The settings specified by the environment variables.  An Error is
+ * thrown if any are invalid.
+ */
+export function getEnvConfig(env: {[name: string]: string | undefined}): IProjectConfig
+{
+    const raw: {[key: string]: any} = {};
+
+    if (env.PUBLISHTOGIT_TAGS !== undefined)
+    {
+        raw.tags = splitList(env.PUBLISHTOGIT_TAGS);
+    }
+
+    if (env.PUBLISHTOGIT_TAG_VERSION !== undefined)
+    {
+        raw.tagVersion = parseBoolean(env.PUBLISHTOGIT_TAG_VERSION);
+    }
+
+    if (env.PUBLISHTOGIT_TAG_MAJOR_MINOR !== undefined)
+    {
+        raw.tagMajorMinor = parseBoolean(env.PUBLISHTOGIT_TAG_MAJOR_MINOR);
+    }
+
+    if (env.PUBLISHTOGIT_IMMUTABLE_TAG_PATTERN !== undefined)
+    {
+        raw.immutableTagPattern = env.PUBLISHTOGIT_IMMUTABLE_TAG_PATTERN;
+    }
+
+    if (env.PUBLISHTOGIT_RELEASE_NOTES !== undefined)
+    {
+        raw.releaseNotes = parseBoolean(env.PUBLISHTOGIT_RELEASE_NOTES);
+    }
+
+    if (env.PUBLISHTOGIT_RELEASE_NOTES_FILE !== undefined)
+    {
+        raw.releaseNotesFile = parseBoolean(env.PUBLISHTOGIT_RELEASE_NOTES_FILE);
+    }
+
+    if (env.PUBLISHTOGIT_SNAPSHOT_TAG_PREFIX !== undefined)
+    {
+        raw.snapshotTagPrefix = env.PUBLISHTOGIT_SNAPSHOT_TAG_PREFIX;
+    }
+
+    if (env.PUBLISHTOGIT_CLEAN_BUILD !== undefined)
+    {
+        raw.cleanBuild = parseBoolean(env.PUBLISHTOGIT_CLEAN_BUILD);
+    }
+
+    if (env.PUBLISHTOGIT_BUILD_SCRIPT !== undefined)
+    {
+        raw.buildScript = env.PUBLISHTOGIT_BUILD_SCRIPT;
+    }
+
+    if (env.PUBLISHTOGIT_REMOTE !== undefined)
+    {
+        raw.remote = env.PUBLISHTOGIT_REMOTE;
+    }
+
+    if (env.PUBLISHTOGIT_TRANSFORMS !== undefined)
+    {
+        raw.transforms = splitList(env.PUBLISHTOGIT_TRANSFORMS);
+    }
+
+    if (env.PUBLISHTOGIT_TMP_DIR !== undefined)
+    {
+        raw.tmpDir = path.resolve(env.PUBLISHTOGIT_TMP_DIR);
+    }
+
+    return validateConfig(raw, "environment variables");
+}
+
+
+/**
+ * Validates raw settings.
+ * @param raw - The raw settings (e.g. parsed from a JSON file)
+ * @param source - A description of where the settings came from.  Used in
+ * error messages.
+ * @return The validated settings.  If any are invalid, an Error describing all
+ * problems is thrown.
+ */
+export function validateConfig(raw: any, source: string): IProjectConfig
+{
+    if (!_.isPlainObject(raw))
+    {
+        throw new Error(`Invalid publishtogit settings in ${source}: settings must be an object.`);
+    }
+
+    const problems: Array<string> = [];
+    _.forOwn(raw, (value, key) => {
+        const validator = settingValidators[key];
+        if (!validator)
+        {
+            problems.push(`"${key}" is not a valid setting.  Valid settings are: ${Object.keys(settingValidators).join(", ")}.`);
+            return;
+        }
+
+        const problem = validator(value);
+        if (problem)
+        {
+            problems.push(`"${key}" ${problem}.`);
+        }
+    });
+
+    if (problems.length > 0)
+    {
+        throw new Error(
+            `Invalid publishtogit settings in ${source}:\n` +
+            _.map(problems, (curProblem) => `    ${curProblem}`).join("\n")
+        );
+    }
+
+    return raw;
+}
+
+
+/**
+ * Merges settings.  Settings appearing later override those appearing earlier.
+ * Undefined values do not override anything.
+ * @param configs - The settings to merge
+ * @return The merged settings
+ */
+export function mergeConfigs(...configs: Array<IProjectConfig>): IProjectConfig
+{
+    const merged: IProjectConfig = {};
+    _.forEach(configs, (curConfig) => {
+        const keys = Object.keys(curConfig) as Array<keyof IProjectConfig>;
+        _.forEach(keys, (curKey) => {
+            if (curConfig[curKey] !== undefined)
+            {
+                merged[curKey] = curConfig[curKey];
+            }
+        });
+    });
+    return merged;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////
+// Helper Functions
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Gets the directories whose settings apply to a package.
+ * @param packageDir - The directory containing the package
+ * @return The root of the Git repo containing the package and each directory
+ * below it down to packageDir (in that order).  If packageDir is not in a Git
+ * repo, only packageDir is returned.
+ */
+function getConfigDirs(packageDir: Directory): Array<Directory>
+{
+    const ancestorDirs: Array<Directory> = [];
+    let curPath = packageDir.absPath();
+    for (let parentPath = path.dirname(curPath); !fs.existsSync(path.join(curPath, ".git")); parentPath = path.dirname(curPath))
+    {
+        if (parentPath === curPath)
+        {
+            // The file system root was reached without finding a repo.
+            return [packageDir];
+        }
+        curPath = parentPath;
+        ancestorDirs.unshift(new Directory(curPath));
+    }
+    return ancestorDirs.concat(packageDir);
+}
+
+
+function isNonEmptyString(value: any): boolean
+{
+    return _.isString(value) && value.length > 0;
+}
+
+
+function validateRegex(value: any): string | undefined
+{
+    if (!isNonEmptyString(value))
+    {
+        return "must be a non-empty string";
+    }
+
+    try {
+        new RegExp(value);  // tslint:disable-line:no-unused-expression
+    }
+    catch (err) {
+        return `is not a valid regular expression (${err.message})`;
+    }
+}
+
+
+function validateTransforms(value: any): string | undefined
+{
+    if (!_.isArray(value))
+    {
+        return "must be an array of transforms";
+    }
+
+    const problems = _.compact(_.map(value, (curSpec, index) => {
+        const specProblem = validateTransformSpec(curSpec);
+        return specProblem && `transform #${index + 1} ${specProblem}`;
+    }));
+
+    if (problems.length > 0)
+    {
+        return `contains invalid transforms (${problems.join("; ")})`;
+    }
+}
+
+
+function validateHooks(value: any): string | undefined
+{
+    if (!_.isPlainObject(value))
+    {
+        return "must be an object";
+    }
+
+    const unknown = _.difference(Object.keys(value), hookNames);
+    if (unknown.length > 0)
+    {
+        return `contains unknown hooks (${unknown.join(", ")}).  Valid hooks are: ${hookNames.join(", ")}`;
+    }
+
+    if (!_.every(_.values(value), isNonEmptyString))
+    {
+        return "must map each hook name to a shell command string";
+    }
+}
+
+
+function validateDependencyRewrites(value: any): string | undefined
+{
+    if (!_.isPlainObject(value))
+    {
+        return "must be an object mapping dependency names to git URLs or version ranges";
+    }
+
+    const invalid = _.filter(Object.keys(value), (curName) => {
+        return !isNonEmptyString(value[curName]) || isLocalDependencySpec(value[curName]);
+    });
+    if (invalid.length > 0)
+    {
+        return `contains invalid rewrites (${invalid.join(", ")}).  Each must be a git URL or version range.`;
+    }
+}
+
+
+function validateBranchRules(value: any): string | undefined
+{
+    if (!_.isArray(value))
+    {
+        return "must be an array of rules";
+    }
+
+    const problems = _.compact(_.map(value, (curRule, index) => {
+        const ruleProblem = validateBranchRule(curRule);
+        return ruleProblem && `rule #${index + 1} ${ruleProblem}`;
+    }));
+
+    if (problems.length > 0)
+    {
+        return `contains invalid rules (${problems.join("; ")})`;
+    }
+}
+
+
+function validateBranchRule(rule: any): string | undefined
+{
+    if (!_.isPlainObject(rule))
+    {
+        return "must be an object";
+    }
+
+    const unknown = _.difference(Object.keys(rule), branchRuleKeys);
+    if (unknown.length > 0)
+    {
+        return `contains unknown properties (${unknown.join(", ")}).  Valid properties are: ${branchRuleKeys.join(", ")}`;
+    }
+
+    if (!isNonEmptyString(rule.branch))
+    {
+        return "must have a \"branch\" pattern";
+    }
+
+    if ((rule.name !== undefined && !isNonEmptyString(rule.name)) ||
+        (rule.tags !== undefined && !isStringArray(rule.tags)) ||
+        (rule.channels !== undefined && !isStringArray(rule.channels)) ||
+        (rule.snapshots !== undefined && !_.isBoolean(rule.snapshots)))
+    {
+        return "must have a string name, arrays of strings for tags and channels and a boolean for snapshots";
+    }
+}
+
+
+function splitList(str: string): Array<string>
+{
+    return _.chain(str.split(","))
+    .map((curItem) => curItem.trim())
+    .filter((curItem) => curItem.length > 0)
+    .value();
+}
+
+
+/**
+ * Parses a boolean value from an environment variable.  Values that are not
+ * recognized are returned as is so that validation will report them.
+ */
+function parseBoolean(str: string): boolean | string
+{
+    const lower = str.trim().toLowerCase();
+    if (lower === "true" || lower === "1")
+    {
+        return true;
+    }
+    if (lower === "false" || lower === "0")
+    {
+        return false;
+    }
+    return str;
+}
@@ -0,0 +1,94 @@
+import * as _ from "lodash";
+import * as yargs from "yargs";
+import {Directory} from "./depot/directory";
+import {pruneTags} from "./pruneTags";
+import {formatTable, printError} from "./cliHelpers";
+
+
+/**
+ * The "prune" command.  Deletes old snapshot and prerelease tags.
+ */
+export const pruneCommand: yargs.CommandModule = {
+    command: "prune [packageDir]",
+    describe: "Delete old tags (such as snapshots and prereleases) locally and from the remote",
+    builder: function builder(argv: yargs.Argv): yargs.Argv {
+        return argv
+        .positional("packageDir", {
+            describe: "The directory containing the package",
+            type: "string",
+            default: "."
+        })
+        .option("pattern",
+            {
+                type: "string",
+                demandOption: true,
+                describe: "A glob pattern selecting the tags to prune (e.g. 'snapshots/*')"
+            }
+        )
+        .option("keep",
+            {
+                type: "number",
+                demandOption: false,
+                describe: "The number of the most recent matching tags to keep"
+            }
+        )
+        .option("older-than",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "Only prune tags older than this (e.g. 30d, 12h or 2w)"
+            }
+        )
+        .option("remote",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "The remote to prune tags from (default: the remote tracked by the current branch)"
+            }
+        )
+        .option("dry-run",
+            {
+                type: "boolean",
+                default: false,
+                demandOption: false,
+                describe: "Show the tags that would be pruned without deleting them"
+            }
+        )
+        .epilog(
+            "Only prerelease and snapshot version tags are pruned.  Release versions (e.g. v1.2.3) and floating " +
+            "tags (e.g. latest, v1 or a channel) are never pruned."
+        );
+    },
+    handler: function handler(args: yargs.Arguments): void {
+        pruneTags({
+            packageDir: new Directory(args.packageDir),
+            pattern:    String(args.pattern),
+            keep:       args.keep,
+            olderThan:  args["older-than"],
+            remote:     args.remote,
+            dryRun:     args["dry-run"]
+        })
+        .then((result) => {
+            if (result.pruned.length === 0)
+            {
+                console.log(`No tags need to be pruned (${result.kept.length} matching tag(s) kept).`);
+            }
+            else
+            {
+                const header = ["Tag", "Tagger", "Date"];
+                const rows = _.map(result.pruned, (curTag) => {
+                    return [curTag.name, curTag.tagger || "", curTag.date ? curTag.date.toISOString() : ""];
+                });
+                console.log(formatTable([header].concat(rows)));
+
+                const verb = result.dryRun ? "Would prune" : "Pruned";
+                console.log(`${verb} ${result.pruned.length} tag(s) (${result.kept.length} matching tag(s) kept).`);
+            }
+            process.exit(0);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
+        });
+    }
+};
@@ -0,0 +1,30 @@
+import {isPrunableTag} from "./pruneTags";
+
+
+describe("isPrunableTag()", () => {
+
+
+    it("allows prerelease and snapshot version tags to be pruned", () => {
+        expect(isPrunableTag("v1.2.3-beta.1")).toEqual(true);
+        expect(isPrunableTag("foo@1.2.3-beta.1")).toEqual(true);
+        expect(isPrunableTag("snapshots/v1.2.4-snapshot.20180101120000.abc1234")).toEqual(true);
+        expect(isPrunableTag("nightly/v1.2.4-snapshot.20180101120000.abc1234", "nightly/")).toEqual(true);
+    });
+
+
+    it("never prunes release version tags", () => {
+        expect(isPrunableTag("v1.2.3")).toEqual(false);
+        expect(isPrunableTag("foo@1.2.3")).toEqual(false);
+    });
+
+
+    it("never prunes floating tags", () => {
+        expect(isPrunableTag("latest")).toEqual(false);
+        expect(isPrunableTag("v1")).toEqual(false);
+        expect(isPrunableTag("v1.1")).toEqual(false);
+        expect(isPrunableTag("beta")).toEqual(false);
+        expect(isPrunableTag("snapshots/latest")).toEqual(false);
+    });
+
+
+});
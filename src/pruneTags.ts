@@ -0,0 +1,177 @@
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {GitRepo, IGitTagDetails} from "./depot/gitRepo";
+import {matchesGlob} from "./depot/stringHelpers";
+import {getProjectConfig} from "./projectConfig";
+import {resolvePublishRemote} from "./publishRemote";
+import {getTagVersion} from "./publishTags";
+
+
+//
+// A regex for parsing durations such as "30d".
+// match[1]: The amount
+// match[2]: The unit (h = hours, d = days, w = weeks)
+//
+const durationRegex = /^(\d+)\s*([hdw])$/;
+const msPerUnit: {[unit: string]: number} = {
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+};
+
+
+export interface IPruneTagsOptions
+{
+    /**
+     * The directory containing the package
+     */
+    packageDir: Directory;
+    /**
+     * A glob pattern selecting the tags that may be pruned (e.g.
+     * "snapshots/*").  "*" does not match "/" and "**" matches anything.
+     */
+    pattern: string;
+    /**
+     * The number of matching tags to keep.  The most recent tags are kept.
+     */
+    keep?: number;
+    /**
+     * Only prune tags that are older than this duration (e.g. "30d", "12h" or
+     * "2w")
+     */
+    olderThan?: string;
+    /**
+     * The remote to prune tags from.  If not specified, the remote tracked by
+     * the current branch is used.
+     */
+    remote?: string;
+    /**
+     * Whether to only determine which tags would be pruned without deleting
+     * them
+     */
+    dryRun?: boolean;
+}
+
+
+export interface IPruneTagsResult
+{
+    /**
+     * The tags that were pruned (or would be pruned during a dry run), most
+     * recent first
+     */
+    pruned: Array<IGitTagDetails>;
+    /**
+     * The tags that match the pattern but were kept, most recent first
+     */
+    kept: Array<IGitTagDetails>;
+    /**
+     * Whether this was a dry run (in which case nothing was deleted)
+     */
+    dryRun: boolean;
+}
+
+
+/**
+ * Deletes old tags from the local repo and the remote.  Only annotated tags
+ * (which have a tagger date) whose names are prerelease or snapshot versions
+ * are considered.  Release versions and floating tags (such as "latest", "v1"
+ * or a channel) are never pruned.
+ * @param options - Options selecting the tags to prune
+ * @return A Promise for a description of the pruned tags
+ */
+export async function pruneTags(options: IPruneTagsOptions): Promise<IPruneTagsResult>
+{
+    if (options.keep === undefined && options.olderThan === undefined)
+    {
+        throw new Error("Specify the number of tags to keep and/or the age of the tags to prune.");
+    }
+
+    if (options.keep !== undefined && (!_.isInteger(options.keep) || options.keep < 0))
+    {
+        throw new Error(`Invalid number of tags to keep: ${options.keep}.`);
+    }
+
+    const cutoff = options.olderThan === undefined ?
+                   undefined :
+                   new Date(Date.now() - parseDuration(options.olderThan));
+
+    const snapshotTagPrefix = getProjectConfig(options.packageDir).snapshotTagPrefix;
+    const repo = await GitRepo.fromSubdirectory(options.packageDir);
+    const remote = await resolvePublishRemote(repo, options.remote);
+    await repo.fetchTags(remote.name);
+
+    // Find the matching tags, most recent first.
+    const allTags = await repo.getTagDetails();
+    const matchingTags = _.chain(allTags)
+    .filter((curTag) => curTag.annotated && curTag.date !== undefined)
+    .filter((curTag) => matchesGlob(curTag.name, options.pattern))
+    .filter((curTag) => isPrunableTag(curTag.name, snapshotTagPrefix))
+    .sortBy((curTag) => -curTag.date!.getTime())
+    .value();
+
+    const pruned: Array<IGitTagDetails> = [];
+    const kept: Array<IGitTagDetails> = [];
+    _.forEach(matchingTags, (curTag, index) => {
+        const isKept = (options.keep !== undefined && index < options.keep) ||
+                       (cutoff !== undefined && curTag.date! >= cutoff);
+        (isKept ? kept : pruned).push(curTag);
+    });
+
+    const dryRun = Boolean(options.dryRun);
+    if (!dryRun && pruned.length > 0)
+    {
+        // Tags that only exist locally cannot be deleted from the remote (and
+        // would make the push deleting the others fail).
+        const prunedNames = _.map(pruned, (curTag) => curTag.name);
+        const remoteTagNames = _.intersection(prunedNames, await repo.remoteTags(remote.name));
+        if (remoteTagNames.length > 0)
+        {
+            await repo.deleteRemoteTags(remoteTagNames, remote.name);
+        }
+        for (const curTagName of prunedNames)
+        {
+            await repo.deleteTag(curTagName);
+        }
+    }
+
+    return {
+        pruned: pruned,
+        kept:   kept,
+        dryRun: dryRun
+    };
+}
+
+
+/**
+ * Determines whether a tag may be pruned.  Only prerelease and snapshot
+ * versions (e.g. "v1.2.3-beta.1", "foo@1.2.3-beta.1" or
+ * "snapshots/v1.2.3-snapshot.20180101120000.abc1234") may be pruned.  Release
+ * versions and floating tags (such as "latest", "v1" or "beta") are installed
+ * from by consumers, so they are never pruned.
+ * @param tagName - The name of the tag
+ * @param snapshotTagPrefix - The prefix of snapshot tags (the
+ * snapshotTagPrefix setting)
+ * @return true if the tag may be pruned; false otherwise
+ */
+export function isPrunableTag(tagName: string, snapshotTagPrefix?: string): boolean
+{
+    const version = getTagVersion(tagName, snapshotTagPrefix);
+    return version !== undefined && version.isPrerelease();
+}
+
+
+/**
+ * Parses a duration.
+ * @param duration - The duration (e.g. "30d", "12h" or "2w")
+ * @return The duration in milliseconds
+ */
+function parseDuration(duration: string): number
+{
+    const match = durationRegex.exec(_.trim(duration));
+    if (!match)
+    {
+        throw new Error(`Invalid duration "${duration}".  Use a number followed by h (hours), d (days) or w (weeks).`);
+    }
+
+    return parseInt(match[1], 10) * msPerUnit[match[2]];
+}
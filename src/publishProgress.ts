@@ -0,0 +1,44 @@
+import {EventEmitter} from "events";
+
+
+/**
+ * The phases that a publish operation progresses through.
+ */
+export type PublishPhase = "bump" | "clone" | "checkout" | "build" | "pack" | "commit" | "tag" | "push" | "fetch";
+
+
+/**
+ * The payload of each "progress" event.
+ */
+export interface IPublishProgressEvent
+{
+    phase: PublishPhase;
+    message: string;
+}
+
+
+/**
+ * @class
+ * @classdesc An event emitter that publish operations use to report their
+ * progress.  A "progress" event (with an IPublishProgressEvent payload) is
+ * emitted as each step of the publish operation is started.
+ */
+export class PublishProgress extends EventEmitter
+{
+    public constructor()
+    {
+        super();
+    }
+
+
+    /**
+     * Reports progress to all "progress" listeners.
+     * @param phase - The phase the publish operation is in
+     * @param message - A description of the step being started
+     */
+    public report(phase: PublishPhase, message: string): void
+    {
+        const event: IPublishProgressEvent = {phase: phase, message: message};
+        this.emit("progress", event);
+    }
+}
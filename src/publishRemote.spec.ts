@@ -0,0 +1,81 @@
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {GitRepo} from "./depot/gitRepo";
+import {spawn} from "./depot/spawn";
+import {resolvePublishRemote} from "./publishRemote";
+
+
+describe("resolvePublishRemote()", () => {
+
+
+    const repoDir = new Directory(__dirname, "..", "tmp", "publishRemote");
+    const git = (...args: Array<string>) => spawn("git", args, repoDir.toString()).closePromise;
+    let repo: GitRepo;
+
+
+    // Creates a repo on the branch "master" with the remotes "origin" and
+    // "upstream".  The branch does not track anything.
+    beforeEach(async () => {
+        repoDir.emptySync();
+        await git("init");
+        await git("config", "user.name", "Jane Doe");
+        await git("config", "user.email", "jane@example.com");
+        await git("checkout", "-b", "master");
+        new File(repoDir, "README.md").writeSync("Sample\n");
+        await git("add", "-A");
+        await git("commit", "-m", "Initial commit");
+        await git("remote", "add", "origin", "https://github.com/me/sample.git");
+        await git("remote", "add", "upstream", "https://github.com/team/sample.git");
+        repo = await GitRepo.fromDirectory(repoDir);
+    });
+
+
+    async function trackUpstream(): Promise<void>
+    {
+        await git("update-ref", "refs/remotes/upstream/release", "HEAD");
+        await git("branch", "--set-upstream-to=upstream/release");
+    }
+
+
+    it("uses the remote and branch tracked by the current branch", async () => {
+        await trackUpstream();
+        const remote = await resolvePublishRemote(repo);
+        expect(remote.name).toEqual("upstream");
+        expect(remote.url.toString()).toEqual("https://github.com/team/sample.git");
+        expect(remote.trackingBranchName).toEqual("release");
+    });
+
+
+    it("uses the specified remote, ignoring a branch tracked on another remote", async () => {
+        await trackUpstream();
+        const remote = await resolvePublishRemote(repo, "origin");
+        expect(remote.name).toEqual("origin");
+        expect(remote.trackingBranchName).toEqual(undefined);
+    });
+
+
+    it("uses origin and the source branch when the source branch came from CI", async () => {
+        await git("checkout", "--detach");
+        const remote = await resolvePublishRemote(repo, undefined, {name: "develop", ci: true});
+        expect(remote.name).toEqual("origin");
+        expect(remote.trackingBranchName).toEqual("develop");
+    });
+
+
+    it("rejects when the current branch does not track a remote branch", async () => {
+        await resolvePublishRemote(repo, undefined, {name: "master", ci: false}).then(
+            () => fail("resolvePublishRemote() should have been rejected."),
+            (err) => expect(err.message).toContain("the current branch is not tracking a remote branch")
+        );
+    });
+
+
+    it("rejects when the specified remote does not exist", async () => {
+        await resolvePublishRemote(repo, "fork").then(
+            () => fail("resolvePublishRemote() should have been rejected."),
+            (err) => expect(err.message).toEqual("The remote \"fork\" does not exist.  Existing remotes: origin, upstream.")
+        );
+    });
+
+
+});
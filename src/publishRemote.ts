@@ -0,0 +1,84 @@
+import {GitRepo} from "./depot/gitRepo";
+import {Url} from "./depot/url";
+import {ISourceBranch} from "./sourceBranch";
+
+
+/**
+ * Describes the development repo's remote that is being published to.
+ */
+export interface IPublishRemote
+{
+    /**
+     * The remote's name
+     */
+    name: string;
+    /**
+     * The remote's URL
+     */
+    url: Url;
+    /**
+     * The name of the remote branch tracked by the current branch (or the
+     * source branch when it was specified explicitly or by a CI environment
+     * variable).  Undefined if the current branch does not track a branch on
+     * this remote.
+     */
+    trackingBranchName: string | undefined;
+}
+
+
+/**
+ * Determines the remote to publish to.  Unless one has been specified, the
+ * remote tracked by the current branch is used.
+ * @param devRepo - The development repo
+ * @param remoteName - The name of the remote to use.  If undefined, the remote
+ * tracked by the current branch is used.
+ * @param sourceBranch - The branch being published.  If it was specified
+ * explicitly or by a CI environment variable, it is the remote branch to
+ * compare against, and "origin" is used when the current branch does not
+ * track a remote (e.g. when HEAD is detached).
+ * @return A Promise for a description of the remote.  The Promise is rejected
+ * if the remote cannot be determined or does not exist.
+ */
+export async function resolvePublishRemote(
+    devRepo: GitRepo,
+    remoteName?: string,
+    sourceBranch?: ISourceBranch
+): Promise<IPublishRemote>
+{
+    const trackingBranch = await devRepo.getTrackingBranch();
+    const ciRemoteName = (sourceBranch && sourceBranch.ci) ? "origin" : undefined;
+    const name = remoteName || (trackingBranch && trackingBranch.remoteName) || ciRemoteName;
+    if (!name)
+    {
+        throw new Error(
+            "Unable to determine which remote to publish to, because the current branch is not tracking a " +
+            "remote branch.  Use --remote to specify one."
+        );
+    }
+
+    const remotes = await devRepo.remotes();
+    const url = remotes[name] ? Url.fromString(remotes[name]) : undefined;
+    if (!url)
+    {
+        throw new Error(`The remote "${name}" does not exist.  Existing remotes: ${Object.keys(remotes).join(", ")}.`);
+    }
+
+    // The remote branch to compare against is the source branch when it was
+    // specified explicitly.  Otherwise, it is the tracked branch unless a
+    // different remote was specified.
+    let trackingBranchName: string | undefined;
+    if (sourceBranch && sourceBranch.ci)
+    {
+        trackingBranchName = sourceBranch.name;
+    }
+    else if (trackingBranch && trackingBranch.remoteName === name)
+    {
+        trackingBranchName = trackingBranch.name;
+    }
+
+    return {
+        name:               name,
+        url:                url,
+        trackingBranchName: trackingBranchName
+    };
+}
@@ -0,0 +1,226 @@
+import {CommitHash} from "./depot/commitHash";
+import {SemVer} from "./depot/semver";
+import {
+    findPreviousVersionTag, formatPublishAnnotation, getNewerFloatingTagVersion, getTagVersion, IPublishTag, isImmutableTag,
+    parsePublishAnnotation, sortPublishTags
+} from "./publishTags";
+
+
+/**
+ * Creates a publish tag with the specified name.
+ * @param tagName - The name of the tag
+ * @return The tag
+ */
+function createPublishTag(tagName: string): IPublishTag
+{
+    const commit = CommitHash.fromString("0123456789abcdef0123456789abcdef01234567")!;
+    return {
+        tagName:       tagName,
+        publishCommit: commit,
+        sourceCommit:  commit,
+        sourceBranch:  "master",
+        tagger:        undefined,
+        date:          undefined,
+        message:       ""
+    };
+}
+
+
+describe("getTagVersion()", () => {
+
+
+    it("parses version tags and workspace package tags", () => {
+        expect(getTagVersion("v1.2.3")!.toString()).toEqual("1.2.3");
+        expect(getTagVersion("foo@1.2.3-beta.1")!.toString()).toEqual("1.2.3-beta.1");
+        expect(getTagVersion("@scope/foo@1.2.3")!.toString()).toEqual("1.2.3");
+    });
+
+
+    it("removes the snapshot tag prefix", () => {
+        const snapshotVersion = "1.2.4-snapshot.20180101120000.abc1234";
+        expect(getTagVersion(`snapshots/v${snapshotVersion}`)!.toString()).toEqual(snapshotVersion);
+        expect(getTagVersion(`nightly-v${snapshotVersion}`, "nightly-")!.toString()).toEqual(snapshotVersion);
+    });
+
+
+    it("returns undefined for other tags", () => {
+        expect(getTagVersion("latest")).toEqual(undefined);
+        expect(getTagVersion("v1")).toEqual(undefined);
+        expect(getTagVersion("snapshots/latest")).toEqual(undefined);
+    });
+
+
+});
+
+
+describe("isImmutableTag()", () => {
+
+
+    it("treats version, workspace and snapshot tags as immutable", () => {
+        expect(isImmutableTag("v1.2.3")).toEqual(true);
+        expect(isImmutableTag("foo@1.2.3")).toEqual(true);
+        expect(isImmutableTag("snapshots/v1.2.4-snapshot.20180101120000.abc1234")).toEqual(true);
+        expect(isImmutableTag("nightly/v1.2.4-snapshot.20180101120000.abc1234", undefined, "nightly/")).toEqual(true);
+    });
+
+
+    it("treats floating tags as mutable", () => {
+        expect(isImmutableTag("latest")).toEqual(false);
+        expect(isImmutableTag("v1")).toEqual(false);
+        expect(isImmutableTag("v1.2")).toEqual(false);
+        expect(isImmutableTag("beta")).toEqual(false);
+    });
+
+
+    it("treats tags matching the immutable tag pattern as immutable", () => {
+        expect(isImmutableTag("release-2018", "^release-")).toEqual(true);
+    });
+
+
+});
+
+
+describe("parsePublishAnnotation()", () => {
+
+
+    const sourceCommit = CommitHash.fromString("0123456789abcdef0123456789abcdef01234567")!;
+
+
+    it("parses the settings written by formatPublishAnnotation()", () => {
+        const message = formatPublishAnnotation({
+            sourceBranch:          "master",
+            sourceCommit:          sourceCommit,
+            publishVersion:        "1.2.4-beta.1",
+            transforms:            ["remove-types", {name: "./tools/transform.js", options: {a: 1}}],
+            workspaceDependencies: {foo: "git+https://github.com/me/mono.git#foo@1.0.0"},
+            dependencyRewrites:    {bar: "^2.0.0"}
+        });
+        const annotation = parsePublishAnnotation(message)!;
+        expect(annotation.sourceBranch).toEqual("master");
+        expect(annotation.sourceCommit.toString()).toEqual(sourceCommit.toString());
+        expect(annotation.publishVersion).toEqual("1.2.4-beta.1");
+        expect(annotation.transforms).toEqual(["remove-types", {name: "./tools/transform.js", options: {a: 1}}]);
+        expect(annotation.workspaceDependencies).toEqual({foo: "git+https://github.com/me/mono.git#foo@1.0.0"});
+        expect(annotation.dependencyRewrites).toEqual({bar: "^2.0.0"});
+        expect(annotation.releaseNotesFile).toBeUndefined();
+        expect(annotation.cleanBuild).toBeUndefined();
+    });
+
+
+    it("parses the clean build settings", () => {
+        const message = formatPublishAnnotation({
+            sourceBranch: "master",
+            sourceCommit: sourceCommit,
+            cleanBuild:   true,
+            buildScript:  "compile"
+        });
+        const annotation = parsePublishAnnotation(message)!;
+        expect(annotation.cleanBuild).toEqual(true);
+        expect(annotation.buildScript).toEqual("compile");
+    });
+
+
+    it("extracts the release notes that follow the changelog entry", () => {
+        const releaseNotes = "Changes since v1.2.2 (abc1234):\n\n### Bug Fixes\n- fix a bug (def5678, Dev)";
+        const message = formatPublishAnnotation({
+            sourceBranch:     "master",
+            sourceCommit:     sourceCommit,
+            releaseNotesFile: true
+        }) + "\n\n## [v1.2.3] 2018-01-01\n### Fixed\n- A bug.\n\n" + releaseNotes;
+        const annotation = parsePublishAnnotation(message)!;
+        expect(annotation.releaseNotesFile).toEqual(true);
+        expect(annotation.releaseNotes).toEqual(releaseNotes);
+    });
+
+
+    it("only reads settings from the first paragraph", () => {
+        const message = formatPublishAnnotation({sourceBranch: "master", sourceCommit: sourceCommit}) +
+                        "\n\nPublished version: 9.9.9";
+        expect(parsePublishAnnotation(message)!.publishVersion).toBeUndefined();
+    });
+
+
+    it("returns undefined for other annotations", () => {
+        expect(parsePublishAnnotation("Release 1.2.3")).toBeUndefined();
+    });
+
+
+});
+
+
+describe("sortPublishTags()", () => {
+
+
+    const sortNames = (tagNames: Array<string>) => {
+        return sortPublishTags(tagNames.map(createPublishTag)).map((curTag) => curTag.tagName);
+    };
+
+
+    it("sorts version tags by semver precedence", () => {
+        expect(sortNames(["v1.10.0", "v1.9.0", "v1.10.0-beta.1"])).toEqual(["v1.9.0", "v1.10.0-beta.1", "v1.10.0"]);
+    });
+
+
+    it("sorts workspace package tags by semver precedence and groups them by package", () => {
+        expect(sortNames(["foo@1.10.0", "bar@2.0.0", "foo@1.9.0", "v1.0.0"]))
+        .toEqual(["bar@2.0.0", "foo@1.9.0", "foo@1.10.0", "v1.0.0"]);
+    });
+
+
+    it("sorts snapshot tags by semver precedence", () => {
+        expect(sortNames(["snapshots/v1.10.0-snapshot.20180102000000.abc1234", "snapshots/v1.9.0-snapshot.20180101000000.abc1234"]))
+        .toEqual(["snapshots/v1.9.0-snapshot.20180101000000.abc1234", "snapshots/v1.10.0-snapshot.20180102000000.abc1234"]);
+    });
+
+
+    it("puts other tags last, sorted by name", () => {
+        expect(sortNames(["latest", "beta", "v1.0.0"])).toEqual(["v1.0.0", "beta", "latest"]);
+    });
+
+
+});
+
+
+describe("findPreviousVersionTag()", () => {
+
+
+    const tags = ["v1.9.0", "v1.10.0", "foo@1.9.0", "foo@1.10.0", "bar@3.0.0", "latest"].map(createPublishTag);
+
+
+    it("finds the newest version tag", () => {
+        expect(findPreviousVersionTag(tags)!.tagName).toEqual("v1.10.0");
+        expect(findPreviousVersionTag(tags, SemVer.fromString("1.10.0"))!.tagName).toEqual("v1.9.0");
+    });
+
+
+    it("only considers the specified workspace package's tags", () => {
+        expect(findPreviousVersionTag(tags, undefined, "foo")!.tagName).toEqual("foo@1.10.0");
+        expect(findPreviousVersionTag(tags, SemVer.fromString("1.10.0"), "foo")!.tagName).toEqual("foo@1.9.0");
+        expect(findPreviousVersionTag(tags, undefined, "baz")).toBeUndefined();
+    });
+
+
+});
+
+
+describe("getNewerFloatingTagVersion()", () => {
+
+
+    it("returns the floating tag's version when it is newer than the version being published", () => {
+        expect(getNewerFloatingTagVersion(["v1", "v1.1", "v1.1.0"], "1.0.1")!.toString()).toEqual("1.1.0");
+    });
+
+
+    it("uses the newest version tag on the floating tag's commit", () => {
+        expect(getNewerFloatingTagVersion(["v1.0.1", "v1.1.0", "v1.0.0"], "1.0.2")!.toString()).toEqual("1.1.0");
+    });
+
+
+    it("returns undefined when the tag can be moved forwards", () => {
+        expect(getNewerFloatingTagVersion(["v1.0", "v1.0.0"], "1.0.1")).toBeUndefined();
+        expect(getNewerFloatingTagVersion(["v1.0.1"], "1.0.1")).toBeUndefined();
+        expect(getNewerFloatingTagVersion(["latest"], "1.0.1")).toBeUndefined();
+    });
+
+
+});
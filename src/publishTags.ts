@@ -0,0 +1,460 @@
+import * as _ from "lodash";
+import {GitRepo, IGitTagDetails} from "./depot/gitRepo";
+import {CommitHash} from "./depot/commitHash";
+import {SemVer} from "./depot/semver";
+import {defaultSnapshotTagPrefix} from "./projectConfig";
+import {TransformSpec} from "./transforms";
+
+
+//
+// Regexes for parsing the annotation that publishtogit applies to each tag it
+// creates.
+//
+const publishedUsingRegex = /^Published using publishtogit\.$/m;
+// match[1]: The source branch name
+const sourceBranchRegex = /^Source branch:\s*(\S+)\s*$/m;
+// match[1]: The full source commit hash
+const sourceCommitRegex = /^Source commit:\s*([0-9a-fA-F]+)/m;
+// match[1]: The version written to the published package.json
+const publishVersionRegex = /^Published version:\s*(\S+)\s*$/m;
+// match[1]: The transforms that were applied (as JSON)
+const transformsRegex = /^Transforms:\s*(.+)$/m;
+// match[1]: The workspace dependencies that were rewritten (as JSON)
+const workspaceDependenciesRegex = /^Workspace dependencies:\s*(.+)$/m;
+// match[1]: The local dependencies that were rewritten (as JSON)
+const dependencyRewritesRegex = /^Dependency rewrites:\s*(.+)$/m;
+const releaseNotesFileRegex = /^Release notes file:\s*RELEASE_NOTES\.md\s*$/m;
+const cleanBuildRegex = /^Clean build:\s*yes\s*$/m;
+// match[1]: The package.json script run by the clean build
+const buildScriptRegex = /^Build script:\s*(\S+)\s*$/m;
+// Matches the first line of generated release notes, which are the last part
+// of the annotation.
+const releaseNotesIntroRegex = /^(?:Changes since .+|Changes in this initial release:)$/gm;
+
+//
+// A regex for parsing the tags applied to workspace packages (e.g.
+// "foo@1.2.3" or "@scope/foo@1.2.3").
+// match[1]: The package name
+// match[2]: The version
+//
+const workspaceTagRegex = /^((?:@[^@\/]+\/)?[^@\/]+)@([^@]+)$/;
+
+
+/**
+ * The information recorded in a publishtogit tag annotation.
+ */
+export interface IPublishAnnotation
+{
+    sourceBranch: string;
+    sourceCommit: CommitHash;
+    /**
+     * The version written to the published package.json (which differs from
+     * the source's version for channel and snapshot publishes)
+     */
+    publishVersion?: string;
+    /**
+     * The package.json transforms that were applied.  Module paths are
+     * relative to the package directory.
+     */
+    transforms?: Array<TransformSpec>;
+    /**
+     * The dependencies on workspace packages that were rewritten, mapped to
+     * their new specifiers
+     */
+    workspaceDependencies?: {[name: string]: string};
+    /**
+     * The dependencies on local paths that were rewritten, mapped to their new
+     * specifiers
+     */
+    dependencyRewrites?: {[name: string]: string};
+    /**
+     * Whether the release notes were written to RELEASE_NOTES.md
+     */
+    releaseNotesFile?: boolean;
+    /**
+     * The generated release notes (only parsed when releaseNotesFile is set)
+     */
+    releaseNotes?: string;
+    /**
+     * Whether the published files came from a clean build
+     */
+    cleanBuild?: boolean;
+    /**
+     * The build script specified for the clean build (the buildScript
+     * setting)
+     */
+    buildScript?: string;
+}
+
+
+/**
+ * Describes a tag that was applied to a publish commit by publishtogit.
+ */
+export interface IPublishTag
+{
+    /**
+     * The name of the tag
+     */
+    tagName: string;
+    /**
+     * The publish commit the tag points to
+     */
+    publishCommit: CommitHash;
+    /**
+     * The commit the published files were built from
+     */
+    sourceCommit: CommitHash;
+    /**
+     * The branch the source commit was on when it was published
+     */
+    sourceBranch: string;
+    /**
+     * The person that created the tag
+     */
+    tagger: string | undefined;
+    /**
+     * When the tag was created
+     */
+    date: Date | undefined;
+    /**
+     * The tag's full annotation
+     */
+    message: string;
+}
+
+
+/**
+ * Determines whether a tag is immutable.  Immutable tags identify a specific
+ * release (e.g. "v1.2.3", "foo@1.2.3" or the snapshot
+ * "snapshots/v1.2.3-snapshot.20180101120000.abc1234") and must never be moved
+ * once they have been pushed.  The only ones that are ever deleted are
+ * prerelease and snapshot versions, when "publishto prune" retires them.  All
+ * other tags (such as "latest") are floating tags that may be moved.
+ * @param tagName - The name of the tag
+ * @param immutableTagPattern - A regular expression matching additional tag
+ * names that should be treated as immutable
+ * @param snapshotTagPrefix - The prefix of snapshot tags (the
+ * snapshotTagPrefix setting)
+ * @return true if the tag is immutable; false if it is a floating tag
+ */
+export function isImmutableTag(
+    tagName: string,
+    immutableTagPattern?: string,
+    snapshotTagPrefix: string = defaultSnapshotTagPrefix
+): boolean
+{
+    if (getTagVersion(tagName, snapshotTagPrefix))
+    {
+        return true;
+    }
+
+    return immutableTagPattern ? new RegExp(immutableTagPattern).test(tagName) : false;
+}
+
+
+/**
+ * Gets the version identified by a version tag.
+ * @param tagName - The name of the tag
+ * @param snapshotTagPrefix - The prefix of snapshot tags (the
+ * snapshotTagPrefix setting).  It is removed before the version is parsed.
+ * @return The version if the tag is a version (e.g. "v1.2.3"), a workspace
+ * package version (e.g. "foo@1.2.3") or a snapshot version (e.g.
+ * "snapshots/v1.2.3-snapshot.20180101120000.abc1234").  Otherwise, undefined.
+ */
+export function getTagVersion(tagName: string, snapshotTagPrefix: string = defaultSnapshotTagPrefix): SemVer | undefined
+{
+    if (snapshotTagPrefix && _.startsWith(tagName, snapshotTagPrefix))
+    {
+        tagName = tagName.slice(snapshotTagPrefix.length);
+    }
+
+    const workspaceMatch = workspaceTagRegex.exec(tagName);
+    return SemVer.fromString(workspaceMatch ? workspaceMatch[2] : tagName);
+}
+
+
+/**
+ * Determines whether moving a floating version tag (e.g. "v1") to the version
+ * being published would move it backwards.
+ * @param tagsAtFloatingTag - The names of the tags on the commit the floating
+ * tag currently points to
+ * @param version - The version being published
+ * @return The version the floating tag currently identifies (the newest
+ * version tag on its commit) if it is newer than version.  Otherwise,
+ * undefined.
+ */
+export function getNewerFloatingTagVersion(tagsAtFloatingTag: Array<string>, version: string): SemVer | undefined
+{
+    const versionsAtTag = _.compact(_.map(tagsAtFloatingTag, (curTag) => SemVer.fromString(curTag)));
+    const currentVersion = _.last(versionsAtTag.sort(SemVer.compare));
+    return currentVersion && SemVer.fromString(version)!.compare(currentVersion) < 0 ? currentVersion : undefined;
+}
+
+
+/**
+ * Gets the name of the tag applied to a workspace package's publish commit.
+ * @param packageName - The name of the package
+ * @param version - The package's version
+ * @return The tag name (e.g. "foo@1.2.3")
+ */
+export function getWorkspaceTagName(packageName: string, version: string): string
+{
+    return `${packageName}@${version}`;
+}
+
+
+/**
+ * Creates the first paragraph of the annotation that publishtogit applies to
+ * each tag it creates.  The release's changelog entry and release notes
+ * follow it.
+ * @param annotation - The information to record.  releaseNotes is ignored.
+ * @return The text of the paragraph
+ */
+export function formatPublishAnnotation(annotation: IPublishAnnotation): string
+{
+    const lines = [
+        "Published using publishtogit.",
+        `Source branch: ${annotation.sourceBranch}`,
+        `Source commit: ${annotation.sourceCommit.toString()} [${annotation.sourceCommit.toShortString()}]`
+    ];
+
+    if (annotation.publishVersion)
+    {
+        lines.push(`Published version: ${annotation.publishVersion}`);
+    }
+
+    if (!_.isEmpty(annotation.transforms))
+    {
+        lines.push(`Transforms: ${JSON.stringify(annotation.transforms)}`);
+    }
+
+    if (!_.isEmpty(annotation.workspaceDependencies))
+    {
+        lines.push(`Workspace dependencies: ${JSON.stringify(annotation.workspaceDependencies)}`);
+    }
+
+    if (!_.isEmpty(annotation.dependencyRewrites))
+    {
+        lines.push(`Dependency rewrites: ${JSON.stringify(annotation.dependencyRewrites)}`);
+    }
+
+    if (annotation.releaseNotesFile)
+    {
+        lines.push("Release notes file: RELEASE_NOTES.md");
+    }
+
+    if (annotation.cleanBuild)
+    {
+        lines.push("Clean build: yes");
+        if (annotation.buildScript)
+        {
+            lines.push(`Build script: ${annotation.buildScript}`);
+        }
+    }
+
+    return lines.join("\n");
+}
+
+
+/**
+ * Parses a tag annotation created by publishtogit.
+ * @param message - The tag's annotation
+ * @return The information recorded in the annotation or undefined if the
+ * annotation was not created by publishtogit.
+ */
+export function parsePublishAnnotation(message: string): IPublishAnnotation | undefined
+{
+    // The settings are recorded in the first paragraph.  The rest of the
+    // annotation is free-form text that could contain similar lines.
+    const [header, ...bodyParagraphs] = message.split(/\n\s*\n/);
+    if (!publishedUsingRegex.test(header))
+    {
+        return undefined;
+    }
+
+    const branchMatch = sourceBranchRegex.exec(header);
+    const commitMatch = sourceCommitRegex.exec(header);
+    const sourceCommit = commitMatch ? CommitHash.fromString(commitMatch[1]) : undefined;
+    if (!branchMatch || !sourceCommit)
+    {
+        return undefined;
+    }
+
+    const annotation: IPublishAnnotation = {
+        sourceBranch: branchMatch[1],
+        sourceCommit: sourceCommit
+    };
+
+    const versionMatch = publishVersionRegex.exec(header);
+    if (versionMatch)
+    {
+        annotation.publishVersion = versionMatch[1];
+    }
+    annotation.transforms = parseJsonLine(transformsRegex, header);
+    annotation.workspaceDependencies = parseJsonLine(workspaceDependenciesRegex, header);
+    annotation.dependencyRewrites = parseJsonLine(dependencyRewritesRegex, header);
+
+    if (cleanBuildRegex.test(header))
+    {
+        annotation.cleanBuild = true;
+        const buildScriptMatch = buildScriptRegex.exec(header);
+        if (buildScriptMatch)
+        {
+            annotation.buildScript = buildScriptMatch[1];
+        }
+    }
+
+    if (releaseNotesFileRegex.test(header))
+    {
+        annotation.releaseNotesFile = true;
+
+        // The release notes are the last part of the annotation.
+        const body = bodyParagraphs.join("\n\n");
+        let introIndex: number | undefined;
+        releaseNotesIntroRegex.lastIndex = 0;
+        for (let match = releaseNotesIntroRegex.exec(body); match; match = releaseNotesIntroRegex.exec(body))
+        {
+            introIndex = match.index;
+        }
+        if (introIndex !== undefined)
+        {
+            annotation.releaseNotes = body.slice(introIndex);
+        }
+    }
+
+    return annotation;
+}
+
+
+/**
+ * Parses a line of a publish annotation that contains JSON.
+ * @param regex - A regex whose first group matches the JSON
+ * @param text - The text to search
+ * @return The parsed value or undefined if the line is missing or invalid
+ */
+function parseJsonLine(regex: RegExp, text: string): any
+{
+    const match = regex.exec(text);
+    if (!match)
+    {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(match[1]);
+    }
+    catch (err) {
+        return undefined;
+    }
+}
+
+
+/**
+ * Converts a tag's details into an IPublishTag.
+ * @param tagDetails - The tag's details
+ * @return The resulting IPublishTag or undefined if the tag was not created by
+ * publishtogit.
+ */
+export function toPublishTag(tagDetails: IGitTagDetails): IPublishTag | undefined
+{
+    const annotation = parsePublishAnnotation(tagDetails.message);
+    if (!annotation)
+    {
+        return undefined;
+    }
+
+    return {
+        tagName:       tagDetails.name,
+        publishCommit: tagDetails.commitHash,
+        sourceCommit:  annotation.sourceCommit,
+        sourceBranch:  annotation.sourceBranch,
+        tagger:        tagDetails.tagger,
+        date:          tagDetails.date,
+        message:       tagDetails.message
+    };
+}
+
+
+/**
+ * Gets the tags in the specified repo that were created by publishtogit.
+ * @param repo - The repo to inspect
+ * @return A Promise for the publish tags, sorted using sortPublishTags().
+ */
+export async function getPublishTags(repo: GitRepo): Promise<Array<IPublishTag>>
+{
+    const allTags = await repo.getTagDetails();
+    const publishTags = _.compact(_.map(allTags, toPublishTag));
+    return sortPublishTags(publishTags);
+}
+
+
+/**
+ * Finds the most recently published version.
+ * @param publishTags - The publish tags to search
+ * @param beforeVersion - If specified, only versions that precede this version
+ * are considered
+ * @param packageName - If specified, only the tags of this workspace package
+ * (e.g. "foo@1.2.3") are considered.  Otherwise, only version tags (e.g.
+ * "v1.2.3") are considered.
+ * @return The tag of the newest version or undefined if there is none
+ */
+export function findPreviousVersionTag(
+    publishTags: Array<IPublishTag>,
+    beforeVersion?: SemVer,
+    packageName?: string
+): IPublishTag | undefined
+{
+    const versionTags = _.filter(publishTags, (curTag) => {
+        const isPackageTag = packageName === undefined ?
+                             SemVer.isSemVer(curTag.tagName) :
+                             _.startsWith(curTag.tagName, `${packageName}@`);
+        const version = getTagVersion(curTag.tagName);
+        return isPackageTag && version !== undefined && (!beforeVersion || version.compare(beforeVersion) < 0);
+    });
+    return _.last(sortPublishTags(versionTags));
+}
+
+
+/**
+ * Sorts publish tags.  Tags that identify a version (see getTagVersion()) come
+ * first.  They are grouped by the text preceding the version (so that the tags
+ * of each workspace package are together) and sorted by semver precedence
+ * within each group.  They are followed by all other tags sorted by name.
+ * @param tags - The tags to sort
+ * @return A new array containing the sorted tags
+ */
+export function sortPublishTags(tags: Array<IPublishTag>): Array<IPublishTag>
+{
+    const [versionTags, otherTags] = _.partition(tags, (curTag) => getTagVersion(curTag.tagName) !== undefined);
+
+    const sortedVersionTags = versionTags.sort((a, b) => {
+        const aPrefix = getTagVersionPrefix(a.tagName);
+        const bPrefix = getTagVersionPrefix(b.tagName);
+        if (aPrefix !== bPrefix)
+        {
+            return aPrefix < bPrefix ? -1 : 1;
+        }
+        return SemVer.compare(getTagVersion(a.tagName)!, getTagVersion(b.tagName)!);
+    });
+    const sortedOtherTags = _.sortBy(otherTags, (curTag) => curTag.tagName);
+
+    return sortedVersionTags.concat(sortedOtherTags);
+}
+
+
+/**
+ * Gets the text that precedes the version in a version tag.
+ * @param tagName - The name of the version tag
+ * @return The text preceding the version (e.g. "v", "foo@" or "snapshots/v")
+ */
+function getTagVersionPrefix(tagName: string): string
+{
+    const workspaceMatch = workspaceTagRegex.exec(tagName);
+    if (workspaceMatch)
+    {
+        return `${workspaceMatch[1]}@`;
+    }
+
+    const versionMatch = /\d+\.\d+\.\d+/.exec(tagName);
+    return versionMatch ? tagName.slice(0, versionMatch.index) : "";
+}
@@ -1,21 +1,69 @@
 import * as BBPromise from "bluebird";
 import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
 import {config as globalConfig} from "./publishToGitConfig";
 import {NodePackage} from "./depot/nodePackage";
+import {PublishProgress} from "./publishProgress";
+import {getProjectConfig, IProjectConfig} from "./projectConfig";
+import {fixLocalDependencies} from "./localDependencies";
+import {applyTransforms} from "./transforms";
 
 
-export function publishToDir(packageDir: Directory, publishDir: Directory): Promise<void> {
+export interface IPublishToDirOptions
+{
+    /**
+     * The directory containing the package to be published
+     */
+    packageDir: Directory;
+    /**
+     * The directory to publish to.  It must not exist or be empty.
+     */
+    publishDir: Directory;
+    /**
+     * An emitter that will be notified as each publish phase is started
+     */
+    progress?: PublishProgress;
+}
+
+
+export interface IPublishToDirResult
+{
+    /**
+     * The directory containing the published package
+     */
+    publishDir: Directory;
+}
+
+
+export function publishToDir(options: IPublishToDirOptions): Promise<IPublishToDirResult> {
 
-    globalConfig.init();
+    const packageDir = options.packageDir;
+    const publishDir = options.publishDir;
+    const progress = options.progress || new PublishProgress();
+    let projectConfig: IProjectConfig;
 
-    return checkInitialConditions(packageDir, publishDir)
+    return BBPromise.resolve()
+    .then(() => {
+        projectConfig = getProjectConfig(packageDir);
+        globalConfig.init(projectConfig.tmpDir ? new Directory(projectConfig.tmpDir) : undefined);
+        return checkInitialConditions(packageDir, publishDir);
+    })
     .then(() => {
         return NodePackage.fromDirectory(packageDir);
     })
     .then((nodePackage) => {
+        progress.report("pack", `Publishing package contents to ${publishDir.toString()}...`);
         return nodePackage.publish(publishDir, false, globalConfig.tmpDir);
     })
     .then(() => {
+        const pkgJson = new File(publishDir, "package.json");
+        return applyTransforms(pkgJson, projectConfig.transforms || [], {packageDir: packageDir, publishDir: publishDir});
+    })
+    .then(() => {
+        fixLocalDependencies(publishDir, projectConfig.dependencyRewrites || {});
+    })
+    .then(() => {
+        return {publishDir: publishDir};
     });
 }
 
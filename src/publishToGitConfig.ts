@@ -9,17 +9,28 @@ import * as os from "os";
  */
 class PublishToGitConfig
 {
+    // region Data Members
+    private _tmpDir: Directory | undefined;
+    // endregion
+
+
     public constructor()
     {
     }
 
     public get tmpDir(): Directory
     {
-        return new Directory(os.homedir(), ".publishtogit", "tmp");
+        return this._tmpDir || new Directory(os.homedir(), ".publishtogit", "tmp");
     }
 
-    public init(): void
+    /**
+     * Initializes the global configuration.
+     * @param tmpDir - The temporary directory to use.  If undefined,
+     * ~/.publishtogit/tmp is used.
+     */
+    public init(tmpDir?: Directory): void
     {
+        this._tmpDir = tmpDir;
         this.tmpDir.ensureExistsSync();
     }
 }
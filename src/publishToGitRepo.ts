@@ -0,0 +1,1471 @@
+import {userInfo} from "os";
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {NodePackage} from "./depot/nodePackage";
+import {Url} from "./depot/url";
+import {GitRepo} from "./depot/gitRepo";
+import {GitBranch} from "./depot/gitBranch";
+import {CommitHash} from "./depot/commitHash";
+import {SemVer, SemVerReleaseType} from "./depot/semver";
+import {spawn} from "./depot/spawn";
+import {gitUrlToProjectName} from "./depot/gitHelpers";
+import {config as globalConfig} from "./publishToGitConfig";
+import {PublishProgress} from "./publishProgress";
+import {getProjectConfig, IProjectConfig, IPublishHooks, IBranchRule, defaultSnapshotTagPrefix} from "./projectConfig";
+import {checkBranchRules} from "./branchRules";
+import {Changelog, IChangelogSection} from "./changelog";
+import {resolvePublishRemote, IPublishRemote} from "./publishRemote";
+import {getSourceBranch, ISourceBranch} from "./sourceBranch";
+import {
+    getPublishTags, findPreviousVersionTag, isImmutableTag, getWorkspaceTagName, formatPublishAnnotation, getNewerFloatingTagVersion
+} from "./publishTags";
+import {recommendReleaseType} from "./conventionalCommits";
+import {generateReleaseNotes} from "./releaseNotes";
+import {getNextChannelVersion, getSnapshotVersion} from "./prereleaseVersion";
+import {finishPublishedContents, IPublishedContentsResult} from "./publishedContents";
+import {cleanBuild} from "./cleanBuild";
+import {getTransformName, rebaseTransformSpec, TransformSpec} from "./transforms";
+import {getWorkspaceGlobs, findWorkspacePackages, sortByDependencies} from "./workspaces";
+
+
+const detachedHeadMessage =
+    "HEAD does not currently point to a branch.  When publishing a detached HEAD (e.g. in CI), " +
+    "use --source-branch to specify the branch being published.";
+
+// The settings that cannot be used when publishing workspaces, because each
+// workspace package is only tagged with its name and version.
+const nonWorkspaceSettings: Array<keyof IProjectConfig> = [
+    "tags", "tagVersion", "tagMajorMinor", "releaseNotes", "releaseNotesFile"
+];
+
+
+////////////////////////////////////////////////////////////////////////////////
+// Types
+////////////////////////////////////////////////////////////////////////////////
+
+export interface IPublishToGitOptions
+{
+    /**
+     * The directory containing the package to be published
+     */
+    packageDir: Directory;
+    /**
+     * Additional tags to apply to the publish commit
+     */
+    tags?: Array<string>;
+    /**
+     * Whether to apply a tag with the package's version number
+     */
+    tagVersion?: boolean;
+    /**
+     * If specified, the version in package.json is bumped, committed and
+     * pushed before publishing.  The new version is then published as if
+     * tagVersion were true.  If publishing fails, the local release commit is
+     * rolled back.  When "auto", the type of bump is determined from the
+     * Conventional Commits messages since the previous version was published.
+     */
+    bump?: VersionBump;
+    /**
+     * When bumping to a prerelease version, the prerelease identifier to use
+     * (e.g. "beta")
+     */
+    preid?: string;
+    /**
+     * Whether to also create or move vMAJOR and vMAJOR.MINOR tags to the
+     * publish commit.  Only applicable when tagVersion is true.  These tags
+     * are never moved backwards and are not applied to prerelease versions.
+     */
+    tagMajorMinor?: boolean;
+    /**
+     * Whether publishing should fail if the package's CHANGELOG.md does not
+     * contain a section for the version being published.  Only applicable
+     * when tagVersion is true.
+     */
+    requireChangelog?: boolean;
+    /**
+     * If specified, the next prerelease of the package's version on this
+     * channel (e.g. 1.2.3-beta.4 for the "beta" channel) is published.  The
+     * version is written to the published package.json, tagged and the
+     * floating channel tag (e.g. "beta") is moved to the publish commit.
+     */
+    channel?: string;
+    /**
+     * Whether to publish a snapshot of the current commit.  A snapshot's
+     * version is derived from the package's version, the date and the commit
+     * (e.g. 1.2.3-snapshot.20190411.abc1234).  It is written to the published
+     * package.json and only a snapshot tag (prefixed by the snapshotTagPrefix
+     * setting) is applied.  Cannot be combined with bump or channel.
+     */
+    snapshot?: boolean;
+    /**
+     * Whether to generate release notes from the commits made since the
+     * previous version was published and include them in the tag annotation
+     */
+    releaseNotes?: boolean;
+    /**
+     * Whether to also write the generated release notes to RELEASE_NOTES.md
+     * in the published content.  Implies releaseNotes.
+     */
+    releaseNotesFile?: boolean;
+    /**
+     * Whether to build and pack the package in a fresh clone of the
+     * development repo at the commit being published (running "npm ci" and
+     * the buildScript setting's package.json script) instead of packing the
+     * development directory.  This makes the published content depend only
+     * on the source commit.
+     */
+    cleanBuild?: boolean;
+    /**
+     * Whether floating tags (such as "latest") should be applied even if they
+     * already exist (moving them).  Immutable tags (semantic versions and tags
+     * matching the immutableTagPattern setting) are never moved.
+     */
+    forceTags?: boolean;
+    /**
+     * Whether to stop before pushing the publish commit
+     */
+    dryRun?: boolean;
+    /**
+     * Whether to remove '@types' packages from the published package.json.
+     * This is shorthand for including "remove-types" in transforms.
+     */
+    removeTypes?: boolean;
+    /**
+     * The transforms to apply to the published package.json (in order).  Each
+     * is the name of a built-in transform, the path of a transform module
+     * (relative to packageDir) or an object specifying the name and options.
+     */
+    transforms?: Array<TransformSpec>;
+    /**
+     * The name of the development repo's remote to publish to.  If not
+     * specified, the remote tracked by the current branch is used.
+     */
+    remote?: string;
+    /**
+     * The name of the branch being published.  Needed when HEAD is detached
+     * (as it is in most CI systems) and the branch cannot be determined from
+     * the CI system's environment variables.  When specified, the current
+     * commit must be contained in this branch on the remote (instead of the
+     * current branch being in sync with its remote branch).
+     */
+    sourceBranch?: string;
+    /**
+     * The URL of the repository to publish to.  If not specified, the package
+     * is published to the remote's repository, which must be the same
+     * repository as package.json's "repository" property.
+     */
+    targetRepo?: string;
+    /**
+     * The temporary directory to use while publishing
+     */
+    tmpDir?: Directory;
+    /**
+     * An emitter that will be notified as each publish phase is started
+     */
+    progress?: PublishProgress;
+}
+
+
+export interface IPublishToGitResult
+{
+    /**
+     * The commit containing the published files
+     */
+    publishCommitHash: CommitHash;
+    /**
+     * The version that was published
+     */
+    version: string;
+    /**
+     * The tags that were applied to the publish commit
+     */
+    tags: Array<string>;
+    /**
+     * URLs that can be used to install the published package (e.g. with
+     * "npm install")
+     */
+    installUrls: Array<string>;
+    /**
+     * The temporary directory containing the publish repository
+     */
+    tmpDir: Directory;
+    /**
+     * Whether this was a dry run (in which case nothing was pushed)
+     */
+    dryRun: boolean;
+}
+
+
+export interface IPublishWorkspacesOptions
+{
+    /**
+     * The root directory of the monorepo
+     */
+    packageDir: Directory;
+    /**
+     * Globs matching the workspace package directories (relative to
+     * packageDir).  If not specified, the "workspaces" property of
+     * packageDir's package.json is used.
+     */
+    workspaces?: Array<string>;
+    /**
+     * Whether to stop before pushing the publish commits
+     */
+    dryRun?: boolean;
+    /**
+     * Whether to remove '@types' packages from the published package.json
+     * files.  This is shorthand for including "remove-types" in transforms.
+     */
+    removeTypes?: boolean;
+    /**
+     * The transforms to apply to the published package.json files (in order)
+     */
+    transforms?: Array<TransformSpec>;
+    /**
+     * Whether to build and pack each package in a fresh clone of the
+     * development repo (see IPublishToGitOptions.cleanBuild)
+     */
+    cleanBuild?: boolean;
+    /**
+     * The name of the development repo's remote to publish to.  If not
+     * specified, the remote tracked by the current branch is used.
+     */
+    remote?: string;
+    /**
+     * The name of the branch being published (see
+     * IPublishToGitOptions.sourceBranch)
+     */
+    sourceBranch?: string;
+    /**
+     * The URL of the repository to publish to.  If not specified, the packages
+     * are published to the remote's repository.
+     */
+    targetRepo?: string;
+    /**
+     * The temporary directory to use while publishing
+     */
+    tmpDir?: Directory;
+    /**
+     * An emitter that will be notified as each publish phase is started
+     */
+    progress?: PublishProgress;
+}
+
+
+/**
+ * Describes a workspace package that was published (or skipped).
+ */
+export interface IPublishedWorkspacePackage
+{
+    /**
+     * The package's name
+     */
+    name: string;
+    /**
+     * The package's version
+     */
+    version: string;
+    /**
+     * The tag identifying the package's publish commit (e.g. "foo@1.2.3")
+     */
+    tag: string;
+    /**
+     * The publish commit that was created.  Undefined if the package was
+     * skipped, because its version had already been published.
+     */
+    publishCommitHash: CommitHash | undefined;
+    /**
+     * A URL that can be used to install the package
+     */
+    installUrl: string;
+}
+
+
+export interface IPublishWorkspacesResult
+{
+    /**
+     * The workspace packages in the order they were published
+     */
+    packages: Array<IPublishedWorkspacePackage>;
+    /**
+     * The temporary directory containing the publish repository.  Undefined
+     * if all packages were skipped.
+     */
+    tmpDir: Directory | undefined;
+    /**
+     * Whether this was a dry run (in which case nothing was pushed)
+     */
+    dryRun: boolean;
+}
+
+
+/**
+ * The ways in which the version can be bumped before publishing.
+ */
+export type VersionBump = SemVerReleaseType | "auto";
+
+
+/**
+ * Describes a version bump that was committed before publishing.
+ */
+interface IVersionBump
+{
+    /**
+     * The commit the development branch was at before the bump
+     */
+    previousCommit: CommitHash;
+    /**
+     * The new version
+     */
+    version: string;
+    /**
+     * Whether the release commit has been pushed to the remote
+     */
+    pushed: boolean;
+}
+
+
+interface IInstanceConfig
+{
+    packageDir: Directory;
+    packageSubpath: string;
+    devRepo: GitRepo;
+    pkg: NodePackage;
+    dryRun: boolean;
+    tags: Array<string>;
+    tagVersion: boolean;
+    publishVersion: string;
+    channel: string | undefined;
+    snapshot: boolean;
+    floatingVersionTags: Array<string>;
+    immutableTags: Array<string>;
+    requireChangelog: boolean;
+    changelogSection: IChangelogSection | undefined;
+    releaseNotes: boolean;
+    releaseNotesFile: boolean;
+    cleanBuild: boolean;
+    buildScript: string | undefined;
+    forceTags: boolean;
+    transforms: Array<TransformSpec>;
+    remote: string;
+    remoteUrl: Url;
+    trackingBranchName: string | undefined;
+    sourceBranch: ISourceBranch;
+    repoUrl: Url;
+    targetUrl: Url | undefined;
+    tmpDir: Directory | undefined;
+    hooks: IPublishHooks;
+    branchRules: Array<IBranchRule>;
+    dependencyRewrites: {[name: string]: string};
+    progress: PublishProgress;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////
+// Publishing
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Publishes a Node.js package to a publish commit in its project's Git
+ * repository.
+ * @param options - Options controlling how the package is published
+ * @return A promise that is resolved with a description of the publish
+ * commit when publishing has completed.
+ */
+export async function publishToGit(options: IPublishToGitOptions): Promise<IPublishToGitResult>
+{
+    if (options.snapshot && (options.bump || options.channel))
+    {
+        throw new Error("A snapshot cannot be published with a version bump or to a channel.");
+    }
+
+    if (!options.bump)
+    {
+        return publish(options);
+    }
+
+    // Bump the version and then publish it.
+    const versionBump = await bumpVersion(options, options.bump);
+    try {
+        return await publish({...options, tagVersion: true});
+    }
+    catch (err) {
+        throw await rollbackVersionBump(options, versionBump, err);
+    }
+}
+
+
+/**
+ * Publishes the package's current commit.
+ * @param options - Options controlling how the package is published
+ * @return A promise that is resolved with a description of the publish
+ * commit when publishing has completed.
+ */
+async function publish(options: IPublishToGitOptions): Promise<IPublishToGitResult>
+{
+    // Resolve the options into a concrete configuration for this instance.
+    const instanceConfig = await getInstanceConfig(options);
+    const progress = instanceConfig.progress;
+
+    globalConfig.init(instanceConfig.tmpDir);
+
+    // Given the instance configuration, determine if everything is in a valid
+    // state.
+    await checkInitialConditions(instanceConfig);
+
+    await runHook(instanceConfig, "prePublish");
+
+    const devCommitHash = await instanceConfig.devRepo.currentCommitHash();
+    const publishRepo = await clonePublishRepo(instanceConfig);
+    const publishCommitHash = await createPublishCommit(instanceConfig, publishRepo, devCommitHash, {});
+
+    // Determine the URLs that can be used to include the published repository
+    // into another project's dependencies.
+    const dependencyUrl = getDependencyUrl(instanceConfig);
+    const installUrls = _.map(instanceConfig.tags, (curTagName) => {
+        return `${dependencyUrl}#${curTagName}`;
+    })
+    .concat(`${dependencyUrl}#${publishCommitHash.toShortString()}`);
+
+    const result: IPublishToGitResult = {
+        publishCommitHash: publishCommitHash,
+        version:           instanceConfig.publishVersion,
+        tags:              instanceConfig.tags,
+        installUrls:       installUrls,
+        tmpDir:            publishRepo.directory,
+        dryRun:            instanceConfig.dryRun
+    };
+
+    // If doing a "dry run", stop.
+    if (instanceConfig.dryRun)
+    {
+        return result;
+    }
+
+    // Push all tags.  Note:  The publish repo was cloned from the repo being
+    // published to, so its "origin" remote is that same repository.  Only
+    // floating tags are force-pushed, so that the remote will reject an
+    // immutable tag that was created by someone else in the meantime.
+    const publishUrl = instanceConfig.targetUrl || instanceConfig.remoteUrl;
+    await Promise.all(_.map(instanceConfig.tags, (curTagName) => {
+        progress.report("push", `Pushing tag ${curTagName} to ${publishUrl.toString()}...`);
+        return publishRepo.pushTag(curTagName, "origin", !_.includes(instanceConfig.immutableTags, curTagName));
+    }));
+
+    // Fetch the newly created tags into the dev repo.  When publishing to a
+    // different repo, the tags do not belong in the dev repo.
+    if (!instanceConfig.targetUrl)
+    {
+        progress.report("fetch", `Fetching the new tags from ${instanceConfig.remote} into the development repo...`);
+        await instanceConfig.devRepo.fetchTags(instanceConfig.remote);
+    }
+
+    await runHook(instanceConfig, "postPublish");
+
+    return result;
+}
+
+
+/**
+ * Publishes the packages in a monorepo's workspaces.  Each package is
+ * published (in dependency order) to its own publish commit tagged
+ * "<name>@<version>".  Dependencies on other workspace packages are rewritten
+ * to refer to their publish commits.  All tags are pushed in a single atomic
+ * push.  Packages whose version has already been published are skipped.
+ * @param options - Options controlling how the packages are published
+ * @return A promise that is resolved with a description of each package when
+ * publishing has completed.
+ */
+export async function publishWorkspacesToGit(options: IPublishWorkspacesOptions): Promise<IPublishWorkspacesResult>
+{
+    const progress = options.progress || new PublishProgress();
+
+    // The monorepo root's settings are inherited by each workspace package
+    // (see getProjectConfig()), so reject the ones that could not be applied.
+    const rootConfig = getProjectConfig(options.packageDir, {tmpDir: options.tmpDir && options.tmpDir.absPath()});
+    const unsupportedSettings = _.filter(nonWorkspaceSettings, (curSetting) => {
+        const value = rootConfig[curSetting];
+        return _.isArray(value) ? value.length > 0 : Boolean(value);
+    });
+    if (unsupportedSettings.length > 0)
+    {
+        throw new Error(`The following settings cannot be used with --workspaces: ${unsupportedSettings.join(", ")}.`);
+    }
+
+    globalConfig.init(rootConfig.tmpDir ? new Directory(rootConfig.tmpDir) : undefined);
+
+    // Find the workspace packages.
+    const devRepo = await GitRepo.fromSubdirectory(options.packageDir);
+    const rootPkg = await NodePackage.fromDirectory(options.packageDir);
+    const globs = (options.workspaces && options.workspaces.length > 0) ? options.workspaces : getWorkspaceGlobs(rootPkg);
+    const pkgs = sortByDependencies(await findWorkspacePackages(devRepo, options.packageDir, globs));
+
+    // Resolve the configuration for each package.  Each package is tagged
+    // with only its name and version.
+    const instanceConfigs: Array<IInstanceConfig> = [];
+    for (const curPkg of pkgs)
+    {
+        instanceConfigs.push(await getInstanceConfig({
+            packageDir:   curPkg.directory,
+            tags:         [getWorkspaceTagName(curPkg.config.name, curPkg.config.version)],
+            tagVersion:   false,
+            dryRun:       options.dryRun,
+            removeTypes:  options.removeTypes,
+            transforms:   options.transforms,
+            cleanBuild:   options.cleanBuild,
+            remote:       options.remote,
+            sourceBranch: options.sourceBranch,
+            targetRepo:   options.targetRepo,
+            progress:     progress
+        }));
+    }
+
+    // All packages must be published to the same repo, so that their tags can
+    // be pushed atomically.
+    const publishUrl = instanceConfigs[0].targetUrl || instanceConfigs[0].remoteUrl;
+    _.forEach(instanceConfigs, (curConfig) => {
+        if (!(curConfig.targetUrl || curConfig.remoteUrl).isSameGitRepo(publishUrl))
+        {
+            throw new Error(`${curConfig.pkg.config.name} would not be published to ${publishUrl.toString()}.`);
+        }
+    });
+
+    // Skip the packages whose version has already been published.
+    const existingTags = await getExistingTags(devRepo, instanceConfigs[0].remote, instanceConfigs[0].targetUrl);
+    const configsToPublish = _.filter(instanceConfigs, (curConfig) => !_.includes(existingTags, curConfig.tags[0]));
+    _.forEach(_.difference(instanceConfigs, configsToPublish), (curConfig) => {
+        progress.report("clone", `Skipping ${curConfig.tags[0]}, because it has already been published.`);
+    });
+
+    // Dependencies on workspace packages are rewritten to their tags.
+    const workspaceUrls: {[name: string]: string} = {};
+    _.forEach(instanceConfigs, (curConfig) => {
+        workspaceUrls[curConfig.pkg.config.name] = `${getDependencyUrl(curConfig)}#${curConfig.tags[0]}`;
+    });
+
+    const result: IPublishWorkspacesResult = {
+        packages: _.map(instanceConfigs, (curConfig) => {
+            return {
+                name:              curConfig.pkg.config.name,
+                version:           curConfig.publishVersion,
+                tag:               curConfig.tags[0],
+                publishCommitHash: undefined,
+                installUrl:        workspaceUrls[curConfig.pkg.config.name]
+            };
+        }),
+        tmpDir: undefined,
+        dryRun: Boolean(options.dryRun)
+    };
+
+    if (configsToPublish.length === 0)
+    {
+        return result;
+    }
+
+    for (const curConfig of configsToPublish)
+    {
+        await checkInitialConditions(curConfig);
+    }
+
+    const devCommitHash = await devRepo.currentCommitHash();
+    const publishRepo = await clonePublishRepo(configsToPublish[0]);
+    result.tmpDir = publishRepo.directory;
+
+    for (const curConfig of configsToPublish)
+    {
+        progress.report("pack", `Publishing ${curConfig.tags[0]}...`);
+        await runHook(curConfig, "prePublish");
+        const publishCommitHash = await createPublishCommit(curConfig, publishRepo, devCommitHash, workspaceUrls);
+        _.find(result.packages, (curPkg) => curPkg.tag === curConfig.tags[0])!.publishCommitHash = publishCommitHash;
+    }
+
+    if (options.dryRun)
+    {
+        return result;
+    }
+
+    // Push all tags at once, so that either all packages are published or
+    // none are.
+    const tagsToPush = _.map(configsToPublish, (curConfig) => curConfig.tags[0]);
+    progress.report("push", `Pushing tags ${tagsToPush.join(", ")} to ${publishUrl.toString()}...`);
+    await publishRepo.pushTags(tagsToPush, "origin", true);
+
+    if (!configsToPublish[0].targetUrl)
+    {
+        progress.report("fetch", `Fetching the new tags from ${configsToPublish[0].remote} into the development repo...`);
+        await devRepo.fetchTags(configsToPublish[0].remote);
+    }
+
+    for (const curConfig of configsToPublish)
+    {
+        await runHook(curConfig, "postPublish");
+    }
+
+    return result;
+}
+
+
+/**
+ * Creates a temporary clone of the repo being published to.
+ * @param instanceConfig - The configuration for this publish operation
+ * @return A Promise for the publish repo
+ */
+async function clonePublishRepo(instanceConfig: IInstanceConfig): Promise<GitRepo>
+{
+    const progress = instanceConfig.progress;
+
+    // Unless a target repo has been specified, publish to the remote's repo.
+    const publishUrl = instanceConfig.targetUrl || instanceConfig.remoteUrl;
+
+    // Clear out space for the publish repo.
+    const publishDir = new Directory(globalConfig.tmpDir, gitUrlToProjectName(publishUrl.toString()));
+    publishDir.deleteSync();
+
+    // Create a clone of the repo being published to.
+    progress.report("clone", `Creating temporary clone of ${publishUrl.toString()} at ${publishDir.toString()}...`);
+    const publishRepo = await GitRepo.clone(publishUrl, globalConfig.tmpDir);
+
+    // If publishing to a different repo, it will not contain the development
+    // commit.  Fetch it from the development repo's remote.
+    if (instanceConfig.targetUrl)
+    {
+        const sourceBranchName = instanceConfig.trackingBranchName || instanceConfig.sourceBranch.name;
+        progress.report("clone", `Fetching ${sourceBranchName} from ${instanceConfig.remoteUrl.toString()}...`);
+        await publishRepo.fetchRef(instanceConfig.remoteUrl.toString(), sourceBranchName);
+    }
+
+    return publishRepo;
+}
+
+
+/**
+ * Creates a publish commit containing the package's published files in the
+ * publish repo and applies the tags to it.  Nothing is pushed.
+ * @param instanceConfig - The configuration for this publish operation
+ * @param publishRepo - The publish repo
+ * @param devCommitHash - The commit being published
+ * @param workspaceUrls - The URLs that dependencies on other workspace
+ * packages should be rewritten to, keyed by package name
+ * @return A Promise for the publish commit
+ */
+async function createPublishCommit(
+    instanceConfig: IInstanceConfig,
+    publishRepo: GitRepo,
+    devCommitHash: CommitHash,
+    workspaceUrls: {[name: string]: string}
+): Promise<CommitHash>
+{
+    const progress = instanceConfig.progress;
+    const publishDir = publishRepo.directory;
+
+    // Floating version tags must never move to an older version.  When
+    // publishing a maintenance release (e.g. 1.0.1 after 1.1.0), the tags that
+    // would move backwards (v1) are left where they are and the others (v1.0)
+    // are moved.  The publish repo was just cloned, so its tags are up to date.
+    const backwardTags = await findBackwardFloatingTags(
+        publishRepo,
+        instanceConfig.floatingVersionTags,
+        instanceConfig.publishVersion
+    );
+    _.forEach(backwardTags, (curTagName) => {
+        progress.report("tag", `Leaving ${curTagName} in place, because it points to a newer version.`);
+    });
+    instanceConfig.tags = _.difference(instanceConfig.tags, backwardTags);
+    instanceConfig.floatingVersionTags = _.difference(instanceConfig.floatingVersionTags, backwardTags);
+
+    // If requested, generate release notes.  The publish repo is used to find
+    // the previous version, because it contains the tags of the repo being
+    // published to.
+    let releaseNotes: string | undefined;
+    if (instanceConfig.releaseNotes)
+    {
+        releaseNotes = await getReleaseNotes(instanceConfig, publishRepo, devCommitHash);
+    }
+
+    // Checkout the commit the devRepo is at.
+    progress.report("checkout", `Checking out current development commit ${devCommitHash.toShortString()}...`);
+    await publishRepo.checkoutCommit(devCommitHash);
+
+    // Create a temporary branch on which the published files will be committed.
+    progress.report("checkout", "Creating temporary branch...");
+    await checkoutTempBranch(publishRepo, "publishtogit");
+
+    // Remove all files under version control and prune directories that are
+    // empty.
+    progress.report("checkout", "Deleting all files...");
+    await deleteTrackedFiles(publishRepo);
+    await publishRepo.directory.prune();
+
+    // Publish the dev repo (or, when doing a clean build, a fresh build of the
+    // development commit) to the publish directory.
+    let packedPkg = instanceConfig.pkg;
+    let buildParentDir: Directory | undefined;
+    if (instanceConfig.cleanBuild)
+    {
+        buildParentDir = new Directory(globalConfig.tmpDir, "build");
+        packedPkg = await cleanBuild({
+            devRepo:        instanceConfig.devRepo,
+            packageSubpath: instanceConfig.packageSubpath,
+            commit:         devCommitHash,
+            buildScript:    instanceConfig.buildScript,
+            buildParentDir: buildParentDir,
+            progress:       progress
+        });
+        progress.report("pack", "Publishing clean build contents to publish repository...");
+    }
+    else
+    {
+        progress.report("pack", "Publishing package contents to publish repository...");
+    }
+    await packedPkg.publish(publishDir, false, globalConfig.tmpDir);
+
+    // Make the same changes that "publishto verify" replays (see
+    // getTagMessage()).  Transform modules are loaded from the package that
+    // was packed, so that a clean build does not depend on the working tree.
+    const devPackageDir = instanceConfig.pkg.directory;
+    const contents = await finishPublishedContents({
+        packageDir:         packedPkg.directory,
+        publishDir:         publishDir,
+        publishVersion:     instanceConfig.publishVersion,
+        releaseNotes:       instanceConfig.releaseNotesFile ? releaseNotes : undefined,
+        workspaceUrls:      workspaceUrls,
+        transforms:         _.map(instanceConfig.transforms, (curSpec) => rebaseTransformSpec(curSpec, devPackageDir, devPackageDir)),
+        dependencyRewrites: instanceConfig.dependencyRewrites,
+        dryRun:             instanceConfig.dryRun,
+        progress:           progress
+    });
+
+    if (buildParentDir)
+    {
+        await buildParentDir.delete();
+    }
+
+    // Stage and commit the published files.
+    progress.report("commit", "Commiting published files...");
+    await publishRepo.stageAll();
+    await publishRepo.commit("Published using publish-to-git.");
+
+    const publishCommitHash = await publishRepo.currentCommitHash();
+
+    // Apply tags.
+    const tagMessage = getTagMessage(instanceConfig, instanceConfig.sourceBranch.name, devCommitHash, releaseNotes, contents);
+    await Promise.all(_.map(instanceConfig.tags, (curTagName) => {
+        progress.report("tag", `Creating tag ${curTagName}...`);
+        return publishRepo.createTag(curTagName, tagMessage, true);
+    }));
+
+    return publishCommitHash;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////
+// Helper Functions
+////////////////////////////////////////////////////////////////////////////////
+
+async function getInstanceConfig(options: IPublishToGitOptions): Promise<IInstanceConfig>
+{
+    const devRepo = await GitRepo.fromSubdirectory(options.packageDir);
+    const pkg = await NodePackage.fromDirectory(options.packageDir);
+
+    // Merge the project's settings with the options specified by the caller.
+    const projectConfig = getProjectConfig(options.packageDir, {
+        tags:       options.tags,
+        tagVersion: options.tagVersion,
+        tagMajorMinor: options.tagMajorMinor,
+        releaseNotes: options.releaseNotes,
+        releaseNotesFile: options.releaseNotesFile,
+        cleanBuild: options.cleanBuild,
+        remote:     options.remote,
+        transforms: options.transforms,
+        tmpDir:     options.tmpDir && options.tmpDir.absPath()
+    });
+
+    const sourceBranch = await getSourceBranch(devRepo, options.sourceBranch);
+    if (!sourceBranch)
+    {
+        throw new Error(detachedHeadMessage);
+    }
+    const remote = await resolvePublishRemote(devRepo, projectConfig.remote, sourceBranch);
+
+    const repoUrl = pkg.config.repository ? Url.fromString(pkg.config.repository.url) : undefined;
+    if (!repoUrl)
+    {
+        throw new Error("Invalid repository URL.");
+    }
+
+    let targetUrl: Url | undefined;
+    if (options.targetRepo)
+    {
+        targetUrl = Url.fromString(options.targetRepo);
+        if (!targetUrl)
+        {
+            throw new Error(`Invalid target repository URL ${options.targetRepo}.`);
+        }
+    }
+
+    // If the package's version is being published, find its changelog entry.
+    let changelogSection: IChangelogSection | undefined;
+    if (projectConfig.tagVersion)
+    {
+        const changelog = await Changelog.fromFile(new File(options.packageDir, "CHANGELOG.md"));
+        changelogSection = changelog && changelog.getSection(pkg.config.version);
+    }
+
+    const transforms = _.clone(projectConfig.transforms || []);
+    if (options.removeTypes && !_.some(transforms, (curSpec) => getTransformName(curSpec) === "remove-types"))
+    {
+        transforms.push("remove-types");
+    }
+
+    // When publishing a snapshot, the version being published identifies the
+    // commit.  When publishing to a channel, it is the next prerelease of the
+    // package's version on that channel.
+    let publishVersion = pkg.config.version;
+    if (options.snapshot)
+    {
+        publishVersion = getSnapshotVersion(pkg.config.version, await devRepo.currentCommitHash(), new Date());
+    }
+    else if (options.channel)
+    {
+        const existingTags = await getExistingTags(devRepo, remote.name, targetUrl);
+        publishVersion = getNextChannelVersion(pkg.config.version, options.channel, existingTags);
+    }
+
+    // Build the array of tags that will be applied to the publish commit.  A
+    // snapshot only gets its own tag, so that it never moves the tags that
+    // consumers of releases depend on.
+    let tags: Array<string>;
+    if (options.snapshot)
+    {
+        const snapshotTagPrefix = projectConfig.snapshotTagPrefix === undefined ?
+                                  defaultSnapshotTagPrefix :
+                                  projectConfig.snapshotTagPrefix;
+        tags = [`${snapshotTagPrefix}v${publishVersion}`];
+    }
+    else
+    {
+        tags = _.clone(projectConfig.tags || []);
+        if (projectConfig.tagVersion || options.channel)
+        {
+            tags.push(`v${publishVersion}`);
+        }
+    }
+
+    // Floating version tags move to the newest version published on their
+    // line.  A channel has a tag with the channel's name.  Otherwise, if
+    // requested, the version tag is accompanied by vMAJOR and vMAJOR.MINOR
+    // tags.
+    let floatingVersionTags: Array<string> = [];
+    if (options.channel)
+    {
+        floatingVersionTags = [options.channel];
+    }
+    else if (projectConfig.tagVersion && projectConfig.tagMajorMinor && !options.snapshot)
+    {
+        floatingVersionTags = getFloatingVersionTags(publishVersion);
+    }
+    tags.push(...floatingVersionTags);
+
+    // Tags that identify a specific release are immutable.  All others are
+    // floating tags that may be moved.
+    const immutableTags = _.filter(tags, (curTag) => {
+        return !_.includes(floatingVersionTags, curTag) &&
+               isImmutableTag(curTag, projectConfig.immutableTagPattern, projectConfig.snapshotTagPrefix);
+    });
+
+    // Make sure we have at least 1 tag to apply.  Otherwise git might garbage
+    // collect the publish commit we are about to create.
+    if (tags.length === 0)
+    {
+        throw new Error("At least one tag must be applied by using either --tag-version or --tag (or the tagVersion or tags settings).");
+    }
+
+    return {
+        packageDir: options.packageDir,
+        packageSubpath: devRepo.getRelativePath(options.packageDir),
+        dryRun: Boolean(options.dryRun),
+        tags: tags,
+        tagVersion: Boolean(projectConfig.tagVersion) && !options.snapshot,
+        publishVersion: publishVersion,
+        channel: options.channel,
+        snapshot: Boolean(options.snapshot),
+        floatingVersionTags: floatingVersionTags,
+        immutableTags: immutableTags,
+        requireChangelog: Boolean(options.requireChangelog),
+        changelogSection: changelogSection,
+        releaseNotes: Boolean(projectConfig.releaseNotes || projectConfig.releaseNotesFile),
+        releaseNotesFile: Boolean(projectConfig.releaseNotesFile),
+        cleanBuild: Boolean(projectConfig.cleanBuild),
+        buildScript: projectConfig.buildScript,
+        devRepo: devRepo,
+        pkg: pkg,
+        forceTags: Boolean(options.forceTags),
+        transforms: transforms,
+        remote: remote.name,
+        remoteUrl: remote.url,
+        trackingBranchName: remote.trackingBranchName,
+        sourceBranch: sourceBranch,
+        repoUrl: repoUrl,
+        targetUrl: targetUrl,
+        tmpDir: projectConfig.tmpDir ? new Directory(projectConfig.tmpDir) : undefined,
+        hooks: projectConfig.hooks || {},
+        branchRules: projectConfig.branchRules || [],
+        dependencyRewrites: projectConfig.dependencyRewrites || {},
+        progress: options.progress || new PublishProgress()
+    };
+}
+
+
+/**
+ * Bumps the version in package.json, commits the change to the development
+ * branch and pushes it.
+ * @param options - Options controlling how the package is published
+ * @param bump - The type of version bump
+ * @return A Promise for a description of the bump, which can be used to roll
+ * it back.
+ */
+async function bumpVersion(options: IPublishToGitOptions, bump: VersionBump): Promise<IVersionBump>
+{
+    const progress = options.progress || new PublishProgress();
+
+    if (options.dryRun)
+    {
+        throw new Error("A version bump cannot be performed during a dry run, because the release commit must be pushed.");
+    }
+
+    const devRepo = await GitRepo.fromSubdirectory(options.packageDir);
+    const pkg = await NodePackage.fromDirectory(options.packageDir);
+    const projectConfig = getProjectConfig(options.packageDir, {remote: options.remote});
+    const sourceBranch = await getSourceBranch(devRepo, options.sourceBranch);
+    if (!sourceBranch)
+    {
+        throw new Error(detachedHeadMessage);
+    }
+    const remote = await resolvePublishRemote(devRepo, projectConfig.remote, sourceBranch);
+
+    // The release commit must only contain the version change and must be
+    // pushable, so check the development repo's state before making it.
+    await checkDevRepoState(devRepo, remote, sourceBranch);
+    if (!await devRepo.getCurrentBranch())
+    {
+        throw new Error("A version bump cannot be performed when HEAD is detached, because the release commit must be pushed.");
+    }
+
+    const curVersion = SemVer.fromString(pkg.config.version);
+    if (!curVersion)
+    {
+        throw new Error(`The package's version (${pkg.config.version}) is not a valid semantic version.`);
+    }
+
+    const releaseType = bump === "auto" ?
+                        await getAutoReleaseType(devRepo, devRepo.getRelativePath(options.packageDir), remote, progress) :
+                        bump;
+    const newVersion = curVersion.bump(releaseType, options.preid).toString();
+    const versionBump: IVersionBump = {
+        previousCommit: await devRepo.currentCommitHash(),
+        version:        newVersion,
+        pushed:         false
+    };
+
+    try {
+        progress.report("bump", `Bumping version from ${curVersion.toString()} to ${newVersion}...`);
+        await pkg.setVersion(newVersion);
+
+        // Make sure the new version can be published before committing and
+        // pushing it.
+        const instanceConfig = await getInstanceConfig({...options, tagVersion: true});
+        await checkPublishConditions(instanceConfig);
+
+        await devRepo.commit(`Release v${newVersion}`, [new File(options.packageDir, "package.json")]);
+
+        progress.report("bump", `Pushing release commit to ${remote.name} (${remote.url.toString()})...`);
+        await devRepo.pushCurrentBranch(remote.name, false, remote.trackingBranchName);
+        versionBump.pushed = true;
+    }
+    catch (err) {
+        throw await rollbackVersionBump(options, versionBump, err);
+    }
+
+    return versionBump;
+}
+
+
+/**
+ * Determines the type of release from the Conventional Commits messages of the
+ * commits made since the previous version was published.  The reasoning is
+ * reported using progress.
+ * @param devRepo - The development repo
+ * @param packageSubpath - The package's path within the development repo.
+ * Only commits that changed files within it are considered.
+ * @param remote - The remote being published to
+ * @param progress - The emitter to report the reasoning to
+ * @return A Promise for the type of release
+ */
+async function getAutoReleaseType(
+    devRepo: GitRepo,
+    packageSubpath: string,
+    remote: IPublishRemote,
+    progress: PublishProgress
+): Promise<SemVerReleaseType>
+{
+    // Find the most recent version that was published.
+    await devRepo.fetchTags(remote.name);
+    const previousTag = findPreviousVersionTag(await getPublishTags(devRepo));
+
+    // Find the commits made to the package since the previous version's source
+    // commit.
+    const entries = await devRepo.getLogRange(
+        previousTag && previousTag.sourceCommit,
+        await devRepo.currentCommitHash(),
+        packageSubpath
+    );
+
+    if (entries.length === 0)
+    {
+        const affecting = packageSubpath ? ` affecting ${packageSubpath}` : "";
+        throw new Error(`There are no commits${affecting} since ${previousTag!.tagName} was published.`);
+    }
+
+    const recommendation = recommendReleaseType(entries);
+    const since = previousTag ?
+                  `since ${previousTag.tagName} (${previousTag.sourceCommit.toShortString()})` :
+                  "(no previous version was found)";
+    progress.report("bump", `Determining version bump from ${entries.length} commit(s) ${since}:`);
+    _.forEach(recommendation.reasons, (curReason) => progress.report("bump", `    ${curReason}`));
+
+    return recommendation.releaseType;
+}
+
+
+/**
+ * Rolls back a local version bump (and its commit, if it was made) after a
+ * failure.
+ * @param options - Options controlling how the package is published
+ * @param versionBump - The version bump to roll back
+ * @param err - The error that caused the failure
+ * @return A Promise for the error that should be reported
+ */
+async function rollbackVersionBump(options: IPublishToGitOptions, versionBump: IVersionBump, err: any): Promise<any>
+{
+    const progress = options.progress || new PublishProgress();
+    const devRepo = await GitRepo.fromSubdirectory(options.packageDir);
+
+    progress.report("bump", `Rolling back the version bump to ${versionBump.version}...`);
+    await devRepo.resetHard(versionBump.previousCommit);
+
+    if (!versionBump.pushed)
+    {
+        return err;
+    }
+
+    // The local commit has been removed, but the remote still has it.
+    const msg = err instanceof Error ? err.message : JSON.stringify(err, undefined, 4);
+    return new Error(
+        `${msg}\nThe local release commit for v${versionBump.version} was rolled back, but it had already been ` +
+        "pushed.  It must be reverted on the remote manually."
+    );
+}
+
+
+async function checkInitialConditions(instanceConfig: IInstanceConfig): Promise<void>
+{
+    const remote = {
+        name:               instanceConfig.remote,
+        url:                instanceConfig.remoteUrl,
+        trackingBranchName: instanceConfig.trackingBranchName
+    };
+    await checkDevRepoState(instanceConfig.devRepo, remote, instanceConfig.sourceBranch);
+
+    await checkPublishConditions(instanceConfig);
+}
+
+
+/**
+ * Checks that the package (in its current state) can be published.  The state
+ * of the development repo is not checked.
+ * @param instanceConfig - The configuration for this publish operation
+ * @return A Promise that resolves if all checks pass and rejects otherwise
+ */
+async function checkPublishConditions(instanceConfig: IInstanceConfig): Promise<void>
+{
+    // Unless deliberately publishing to a different repository, make sure the
+    // remote points to the repository specified in package.json.
+    if (!instanceConfig.targetUrl && !instanceConfig.remoteUrl.isSameGitRepo(instanceConfig.repoUrl))
+    {
+        const remoteLabel = `remote "${instanceConfig.remote}":`;
+        const repoLabel = "package.json repository:";
+        const labelWidth = Math.max(remoteLabel.length, repoLabel.length) + 1;
+        const msg = [
+            `The remote "${instanceConfig.remote}" does not refer to the repository specified in package.json:`,
+            `    ${_.padEnd(remoteLabel, labelWidth)}${instanceConfig.remoteUrl.toString()}`,
+            `    ${_.padEnd(repoLabel, labelWidth)}${instanceConfig.repoUrl.toString()}`,
+            "To publish to a repository other than the one in package.json, use --target-repo."
+        ];
+        throw new Error(msg.join("\n"));
+    }
+
+    // Make sure the branch rules allow this publish.
+    checkBranchRules(instanceConfig.branchRules, instanceConfig.sourceBranch.name, {
+        tags:     _.difference(instanceConfig.tags, getChannelTags(instanceConfig), getSnapshotTags(instanceConfig)),
+        channel:  instanceConfig.channel,
+        snapshot: instanceConfig.snapshot
+    });
+
+    // Make sure the directory is a Node package.
+    if (!instanceConfig.pkg.config.version)
+    {
+        throw new Error("Package does not have a version.");
+    }
+
+    // If requested, make sure the version being published has been described
+    // in the changelog.
+    if (instanceConfig.tagVersion && instanceConfig.requireChangelog && !instanceConfig.changelogSection)
+    {
+        throw new Error(`CHANGELOG.md does not contain an entry for version ${instanceConfig.pkg.config.version}.`);
+    }
+
+    // Find the tags that already exist.  The repo being published to is
+    // checked, because it may contain tags that have not been fetched into the
+    // development repo.
+    const existingTags = await getExistingTags(instanceConfig.devRepo, instanceConfig.remote, instanceConfig.targetUrl);
+
+    // Immutable tags must never be moved, even when forcing.
+    const existingImmutableTags = _.intersection(existingTags, instanceConfig.immutableTags);
+    if (existingImmutableTags.length > 0)
+    {
+        throw new Error(
+            `The following tags already exist and cannot be moved: ${existingImmutableTags.join(", ")}.  ` +
+            "Version tags (and tags matching the immutableTagPattern setting) are immutable."
+        );
+    }
+
+    // If we are not forcing (i.e. moving) tags, then make sure none of the
+    // floating tags we are applying already exist.  Floating version tags are
+    // expected to move.
+    if (!instanceConfig.forceTags)
+    {
+        const fixedTags = _.difference(instanceConfig.tags, instanceConfig.floatingVersionTags);
+        const alreadyExist = _.intersection(existingTags, fixedTags);
+        if (alreadyExist.length > 0)
+        {
+            throw new Error(`The following tags already exist: ${alreadyExist.join(", ")}.  Use --force-tags to move them.`);
+        }
+    }
+}
+
+
+/**
+ * Gets the tags that already exist in the repository being published to.
+ * @param devRepo - The development repo
+ * @param remote - The name of the remote being published to
+ * @param targetUrl - The URL of the repository being published to, if it is
+ * not the remote's repository
+ * @return A Promise for the names of the existing tags
+ */
+async function getExistingTags(devRepo: GitRepo, remote: string, targetUrl: Url | undefined): Promise<Array<string>>
+{
+    // When publishing to a different repo, the development repo's tags are
+    // irrelevant.
+    if (targetUrl)
+    {
+        return devRepo.remoteTags(targetUrl.toString());
+    }
+
+    const localTags = await devRepo.tags();
+    const remoteTags = await devRepo.remoteTags(remote);
+    return _.union(localTags, remoteTags);
+}
+
+
+/**
+ * Gets the tags that are applied because a channel is being published to.
+ * @param instanceConfig - The configuration for this publish operation
+ * @return The channel's tags
+ */
+function getChannelTags(instanceConfig: IInstanceConfig): Array<string>
+{
+    return instanceConfig.channel ? [`v${instanceConfig.publishVersion}`, instanceConfig.channel] : [];
+}
+
+
+/**
+ * Gets the tags that are applied because a snapshot is being published.
+ * @param instanceConfig - The configuration for this publish operation
+ * @return The snapshot's tags
+ */
+function getSnapshotTags(instanceConfig: IInstanceConfig): Array<string>
+{
+    return instanceConfig.snapshot ? instanceConfig.tags : [];
+}
+
+
+/**
+ * Makes sure the development repo is clean, on a branch and in sync with the
+ * remote.  When the source branch was specified explicitly or by a CI
+ * environment variable, the current commit only needs to be contained in the
+ * remote branch.
+ * @param devRepo - The development repo
+ * @param remote - The remote being published to
+ * @param sourceBranch - The branch being published
+ * @return A Promise that resolves if all checks pass and rejects otherwise
+ */
+async function checkDevRepoState(
+    devRepo: GitRepo,
+    remote: IPublishRemote,
+    sourceBranch: ISourceBranch
+): Promise<void>
+{
+    // Make sure there are no modified files.
+    const modifiedFiles = await devRepo.modifiedFiles();
+    if (modifiedFiles.length > 0 )
+    {
+        throw new Error("This repository contains modified files.");
+    }
+
+    // Make sure there are no untracked files.
+    const untrackedFiles = await devRepo.untrackedFiles();
+    if (untrackedFiles.length > 0 )
+    {
+        throw new Error("This repository contains untracked files.");
+    }
+
+    // When the branch was specified explicitly or by a CI environment variable,
+    // HEAD may be detached or the build may have started from an older commit.
+    // The commit must already be on the remote branch.
+    if (sourceBranch.ci)
+    {
+        const remoteBranch = `${remote.name}/${sourceBranch.name}`;
+        try {
+            await devRepo.fetchRef(remote.name, `+refs/heads/${sourceBranch.name}:refs/remotes/${remoteBranch}`);
+        }
+        catch (err) {
+            throw new Error(`The branch ${sourceBranch.name} does not exist on ${remote.name} (${remote.url.toString()}).`);
+        }
+
+        const commit = await devRepo.currentCommitHash();
+        if (!await devRepo.isAncestor(commit, remoteBranch))
+        {
+            throw new Error(
+                `The current commit (${commit.toShortString()}) is not contained in ${sourceBranch.name} ` +
+                `on ${remote.name} (${remote.url.toString()}).`
+            );
+        }
+        return;
+    }
+
+    // The development repo should be pushed to its remote.
+    const deltas = await devRepo.getCommitDeltas(remote.name, remote.trackingBranchName);
+    if ((deltas.ahead > 0) || (deltas.behind > 0))
+    {
+        throw new Error(
+            `The branch is ${deltas.ahead} commits ahead and ${deltas.behind} commits behind ` +
+            `${remote.name} (${remote.url.toString()}).`
+        );
+    }
+}
+
+
+/**
+ * Gets the names of the floating vMAJOR and vMAJOR.MINOR tags for the
+ * specified version.
+ * @param version - The version being published
+ * @return The floating tag names.  Prerelease versions do not get floating
+ * tags, so an empty array is returned for them.
+ */
+function getFloatingVersionTags(version: string): Array<string>
+{
+    const semver = SemVer.fromString(version);
+    if (!semver || semver.isPrerelease())
+    {
+        return [];
+    }
+
+    return [`v${semver.major}`, `v${semver.major}.${semver.minor}`];
+}
+
+
+/**
+ * Finds the floating version tags that would move backwards if they were moved
+ * to the version being published.
+ * @param repo - The repo containing the floating version tags
+ * @param tagNames - The floating version tags
+ * @param version - The version being published
+ * @return A Promise for the names of the tags that currently point to a newer
+ * version
+ */
+async function findBackwardFloatingTags(repo: GitRepo, tagNames: Array<string>, version: string): Promise<Array<string>>
+{
+    const backwardTags: Array<string> = [];
+    for (const curTagName of tagNames)
+    {
+        // Tags that do not exist yet can always be created.
+        const currentCommit = await repo.resolveCommit(`refs/tags/${curTagName}`);
+        if (currentCommit && getNewerFloatingTagVersion(await repo.tagsPointingAt(currentCommit), version))
+        {
+            backwardTags.push(curTagName);
+        }
+    }
+    return backwardTags;
+}
+
+
+/**
+ * Builds the message used to annotate the tags applied to the publish commit.
+ * Besides identifying the source, it records the changes made to the packed
+ * files, so that "publishto verify" can replay them.
+ * @param instanceConfig - The configuration for this publish operation
+ * @param sourceBranchName - The name of the branch being published
+ * @param devCommitHash - The commit being published
+ * @param releaseNotes - The generated release notes (if any)
+ * @param contents - The result of finishing the published contents
+ * @return The tag message
+ */
+function getTagMessage(
+    instanceConfig: IInstanceConfig,
+    sourceBranchName: string,
+    devCommitHash: CommitHash,
+    releaseNotes: string | undefined,
+    contents: IPublishedContentsResult
+): string
+{
+    // Transform modules are recorded relative to the package directory, so
+    // that they can be found in any clone of the repo.
+    const packageDir = instanceConfig.pkg.directory;
+    let tagMessage = formatPublishAnnotation({
+        sourceBranch:          sourceBranchName,
+        sourceCommit:          devCommitHash,
+        publishVersion:        instanceConfig.publishVersion,
+        transforms:            _.map(instanceConfig.transforms, (curSpec) => rebaseTransformSpec(curSpec, packageDir, packageDir)),
+        workspaceDependencies: contents.workspaceDependencies,
+        dependencyRewrites:    contents.dependencyRewrites,
+        releaseNotesFile:      Boolean(releaseNotes && instanceConfig.releaseNotesFile),
+        cleanBuild:            instanceConfig.cleanBuild,
+        buildScript:           instanceConfig.buildScript
+    });
+
+    // If the version's changelog entry was found, include it.
+    if (instanceConfig.changelogSection)
+    {
+        tagMessage += "\n\n" +
+            instanceConfig.changelogSection.heading + "\n" +
+            instanceConfig.changelogSection.body;
+    }
+
+    if (releaseNotes)
+    {
+        tagMessage += "\n\n" + releaseNotes;
+    }
+
+    return tagMessage;
+}
+
+
+/**
+ * Gets the URL that other projects can use to depend on the published
+ * package.  A tag or commit hash should be appended to it.
+ * @param instanceConfig - The configuration for this publish operation
+ * @return The dependency URL
+ */
+function getDependencyUrl(instanceConfig: IInstanceConfig): string
+{
+    return (instanceConfig.targetUrl || instanceConfig.repoUrl).replaceProtocol("git+https").toString();
+}
+
+
+/**
+ * Generates release notes from the commits made since the previous version
+ * was published.
+ * @param instanceConfig - The configuration for this publish operation
+ * @param publishRepo - The publish repo (used to find the previous version)
+ * @param devCommitHash - The commit being published
+ * @return A Promise for the release notes
+ */
+async function getReleaseNotes(
+    instanceConfig: IInstanceConfig,
+    publishRepo: GitRepo,
+    devCommitHash: CommitHash
+): Promise<string>
+{
+    // A workspace package's previous version is identified by its own
+    // "<name>@<version>" tags.
+    const pkgName = instanceConfig.pkg.config.name;
+    const isWorkspacePackage = _.includes(instanceConfig.tags, getWorkspaceTagName(pkgName, instanceConfig.publishVersion));
+
+    const version = SemVer.fromString(instanceConfig.publishVersion);
+    const previousTag = findPreviousVersionTag(await getPublishTags(publishRepo), version, isWorkspacePackage ? pkgName : undefined);
+    // Only the commits that changed the package are included, so that packages
+    // in a subdirectory (e.g. workspace packages) do not list their siblings'
+    // changes.
+    const log = await instanceConfig.devRepo.getLogRange(
+        previousTag && previousTag.sourceCommit,
+        devCommitHash,
+        instanceConfig.packageSubpath
+    );
+
+    // The release commit made by --bump is not worth mentioning.
+    const releaseCommitMessage = `Release v${instanceConfig.pkg.config.version}`;
+    const entries = _.filter(log, (curEntry) => curEntry.message !== releaseCommitMessage);
+
+    const intro = previousTag ?
+                  `Changes since ${previousTag.tagName} (${previousTag.sourceCommit.toShortString()}):` :
+                  "Changes in this initial release:";
+    return `${intro}\n\n${generateReleaseNotes(entries)}`;
+}
+
+
+async function checkoutTempBranch(repo: GitRepo, baseName: string): Promise<GitBranch>
+{
+    const now = new Date();
+    const datestamp =
+        now.getFullYear() + "_" + now.getMonth() + "_" + now.getDate() + "_" +
+        now.getHours() + "_" + now.getMinutes() + "_" + now.getSeconds() + "." + now.getMilliseconds();
+
+    const user = userInfo();
+
+    const tmpBranchName = `${baseName}-${user.username}-${datestamp}`;
+    const tmpBranch = await GitBranch.create(repo, tmpBranchName);
+    await repo.checkoutBranch(tmpBranch, true);
+    return tmpBranch;
+}
+
+
+/**
+ * Runs the specified hook (if the project has configured one).
+ * @param instanceConfig - The configuration for this publish operation
+ * @param hookName - The name of the hook to run
+ * @return A Promise that is resolved when the hook's command has completed
+ * successfully.  It is rejected if the command fails.
+ */
+async function runHook(instanceConfig: IInstanceConfig, hookName: keyof IPublishHooks): Promise<void>
+{
+    const cmd = instanceConfig.hooks[hookName];
+    if (!cmd)
+    {
+        return;
+    }
+
+    try {
+        await spawn("sh", ["-c", cmd], instanceConfig.packageDir.toString(),
+                    undefined, process.stdout, process.stderr).closePromise;
+    }
+    catch (err) {
+        throw new Error(`The ${hookName} hook failed with exit code ${err.exitCode}.`);
+    }
+}
+
+
+/**
+ * Deletes all tracked files within a repo.
+ * @param repo - The repo to clear
+ * @return A Promise that is resolved when all files have been deleted.
+ */
+async function deleteTrackedFiles(repo: GitRepo): Promise<void>
+{
+    const files = await repo.files();
+    const deletePromises = _.map(files, (curFile) => {
+        return curFile.delete();
+    });
+
+    await Promise.all(deletePromises);
+}
@@ -0,0 +1,138 @@
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {NodePackage} from "./depot/nodePackage";
+import {PublishProgress} from "./publishProgress";
+import {applyTransforms, TransformSpec} from "./transforms";
+import {rewriteWorkspaceDependencies} from "./workspaces";
+import {fixLocalDependencies} from "./localDependencies";
+
+
+export interface IPublishedContentsOptions
+{
+    /**
+     * The directory containing the package being published
+     */
+    packageDir: Directory;
+    /**
+     * The directory the package has been packed into
+     */
+    publishDir: Directory;
+    /**
+     * The version to write to the published package.json
+     */
+    publishVersion: string;
+    /**
+     * Release notes to write to RELEASE_NOTES.md.  If undefined, the file is
+     * not written.
+     */
+    releaseNotes?: string;
+    /**
+     * The specifiers that dependencies on workspace packages are rewritten
+     * to, keyed by package name
+     */
+    workspaceUrls: {[name: string]: string};
+    /**
+     * The package.json transforms to apply
+     */
+    transforms: Array<TransformSpec>;
+    /**
+     * The specifiers that dependencies on local paths are rewritten to, keyed
+     * by package name
+     */
+    dependencyRewrites: {[name: string]: string};
+    /**
+     * Whether to report what each transform changed
+     */
+    dryRun: boolean;
+    /**
+     * An emitter that will be notified of each change made
+     */
+    progress: PublishProgress;
+}
+
+
+export interface IPublishedContentsResult
+{
+    /**
+     * The dependencies on workspace packages that were rewritten, mapped to
+     * their new specifiers
+     */
+    workspaceDependencies: {[name: string]: string};
+    /**
+     * The dependencies on local paths that were rewritten, mapped to their new
+     * specifiers
+     */
+    dependencyRewrites: {[name: string]: string};
+}
+
+
+/**
+ * Makes the changes that publishtogit applies to a package after it has been
+ * packed.  Publishing and verifying a publish both use this, so that they
+ * produce the same files.
+ * @param options - Options describing the changes to make
+ * @return A Promise for a description of the dependencies that were rewritten
+ */
+export async function finishPublishedContents(options: IPublishedContentsOptions): Promise<IPublishedContentsResult>
+{
+    const progress = options.progress;
+    const publishDir = options.publishDir;
+    const pkgJson = new File(publishDir, "package.json");
+
+    // When publishing a prerelease to a channel or a snapshot, installed
+    // copies should report the version being published.
+    const publishedPkg = await NodePackage.fromDirectory(publishDir);
+    if (publishedPkg.config.version !== options.publishVersion)
+    {
+        await publishedPkg.setVersion(options.publishVersion);
+    }
+
+    if (options.releaseNotes !== undefined)
+    {
+        const releaseNotesFile = new File(publishDir, "RELEASE_NOTES.md");
+        await releaseNotesFile.write(`# Release Notes for v${options.publishVersion}\n\n${options.releaseNotes}\n`);
+    }
+
+    // Make dependencies on other workspace packages refer to their publish
+    // commits.
+    let rewrittenWorkspaceDeps: Array<string> = [];
+    if (!_.isEmpty(options.workspaceUrls))
+    {
+        const pkgJsonContents = pkgJson.readJsonSync<any>();
+        rewrittenWorkspaceDeps = rewriteWorkspaceDependencies(pkgJsonContents, options.workspaceUrls);
+        if (rewrittenWorkspaceDeps.length > 0)
+        {
+            progress.report("pack", `Rewriting workspace dependencies: ${rewrittenWorkspaceDeps.join(", ")}...`);
+            pkgJson.writeJsonSync(pkgJsonContents);
+        }
+    }
+
+    // Apply the configured package.json transforms.  In dry-run mode, show
+    // what each one changed.
+    const appliedTransforms = await applyTransforms(
+        pkgJson,
+        options.transforms,
+        {packageDir: options.packageDir, publishDir: publishDir}
+    );
+    _.forEach(appliedTransforms, (curTransform) => {
+        progress.report("pack", `Applied transform ${curTransform.name}.`);
+        if (options.dryRun)
+        {
+            progress.report("pack", curTransform.diff || "(no changes)");
+        }
+    });
+
+    // Consumers cannot install dependencies on local paths or workspaces, so
+    // they must be rewritten.
+    const rewrittenLocalDeps = _.map(fixLocalDependencies(publishDir, options.dependencyRewrites), (curDep) => {
+        const newSpec = options.dependencyRewrites[curDep.name];
+        progress.report("pack", `Rewrote dependency ${curDep.name} from "${curDep.spec}" to "${newSpec}".`);
+        return curDep.name;
+    });
+
+    return {
+        workspaceDependencies: _.pick(options.workspaceUrls, rewrittenWorkspaceDeps),
+        dependencyRewrites:    _.pick(options.dependencyRewrites, rewrittenLocalDeps)
+    };
+}
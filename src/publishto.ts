@@ -1,6 +1,14 @@
 import * as yargs from "yargs";
 import {Directory} from "./depot/directory";
 import {publishToDir} from "./publishToDir";
+import {gitCommand} from "./gitCommand";
+import {listCommand} from "./listCommand";
+import {traceCommand} from "./traceCommand";
+import {verifyCommand} from "./verifyCommand";
+import {distTagCommand} from "./distTagCommand";
+import {pruneCommand} from "./pruneCommand";
+import {PublishProgress, IPublishProgressEvent} from "./publishProgress";
+import {printError} from "./cliHelpers";
 
 
 // Each command is implemented in its own module.
@@ -20,11 +28,30 @@ yargs
         });
     },
     handler: function handler(args: yargs.Arguments): void {
-        publishToDir(new Directory(args.packageDir), new Directory(args.publishDir))
+        const progress = new PublishProgress();
+        progress.on("progress", (event: IPublishProgressEvent) => {
+            console.log(event.message);
+        });
+
+        publishToDir({
+            packageDir: new Directory(args.packageDir),
+            publishDir: new Directory(args.publishDir),
+            progress:   progress
+        })
         .then(() => {
             process.exit(0);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
         });
     }
 })
+.command(gitCommand)
+.command(listCommand)
+.command(traceCommand)
+.command(verifyCommand)
+.command(distTagCommand)
+.command(pruneCommand)
 .wrap(yargs.terminalWidth())
 .help().argv;    // tslint:disable-line:no-unused-expression
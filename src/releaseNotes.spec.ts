@@ -0,0 +1,60 @@
+import {IGitLogEntry} from "./depot/gitRepo";
+import {generateReleaseNotes} from "./releaseNotes";
+
+
+function logEntry(commitHash: string, message: string, author: string = "Jane Doe <jane@example.com>"): IGitLogEntry
+{
+    return {commitHash: commitHash, author: author, timestamp: new Date(0), message: message};
+}
+
+
+describe("generateReleaseNotes()", () => {
+
+
+    it("groups commits by type, listing breaking changes first", () => {
+        const notes = generateReleaseNotes([
+            logEntry("1111111aaaa", "Update the readme"),
+            logEntry("2222222bbbb", "fix(cli): handle missing options"),
+            logEntry("3333333cccc", "feat: add an option\n\nBREAKING CHANGE: the old option was removed"),
+            logEntry("4444444dddd", "docs: explain options"),
+            logEntry("5555555eeee", "perf: cache the config"),
+            logEntry("6666666ffff", "chore: update dependencies")
+        ]);
+
+        expect(notes).toEqual([
+            "### Breaking Changes",
+            "- add an option (3333333, Jane Doe)",
+            "",
+            "### Features",
+            "- add an option (3333333, Jane Doe)",
+            "",
+            "### Bug Fixes",
+            "- **cli:** handle missing options (2222222, Jane Doe)",
+            "",
+            "### Performance",
+            "- cache the config (5555555, Jane Doe)",
+            "",
+            "### Documentation",
+            "- explain options (4444444, Jane Doe)",
+            "",
+            "### Other Changes",
+            "- Update the readme (1111111, Jane Doe)",
+            "- update dependencies (6666666, Jane Doe)"
+        ].join("\n"));
+    });
+
+
+    it("omits empty groups and uses only the first line of other commits", () => {
+        const notes = generateReleaseNotes([
+            logEntry("1111111aaaa", "Fix a typo\n\nThe details.", "John Smith")
+        ]);
+        expect(notes).toEqual("### Other Changes\n- Fix a typo (1111111, John Smith)");
+    });
+
+
+    it("handles releases without commits", () => {
+        expect(generateReleaseNotes([])).toEqual("No changes.");
+    });
+
+
+});
@@ -0,0 +1,65 @@
+import * as _ from "lodash";
+import {IGitLogEntry} from "./depot/gitRepo";
+import {parseConventionalCommit} from "./conventionalCommits";
+
+
+/**
+ * The groups that commits are sorted into, in the order they appear in the
+ * release notes.  Commits that do not follow the Conventional Commits format
+ * (or have a type not listed here) are placed in the "Other Changes" group.
+ */
+const groups: Array<{title: string, types: Array<string>}> = [
+    {title: "Features",      types: ["feat"]},
+    {title: "Bug Fixes",     types: ["fix"]},
+    {title: "Performance",   types: ["perf"]},
+    {title: "Documentation", types: ["docs"]}
+];
+const breakingChangesTitle = "Breaking Changes";
+const otherChangesTitle = "Other Changes";
+
+
+/**
+ * Generates release notes from the commits included in a release.  Commits are
+ * grouped by their Conventional Commits type and listed with their short hash
+ * and author.
+ * @param entries - The log entries for the commits in the release
+ * @return The release notes (Markdown)
+ */
+export function generateReleaseNotes(entries: Array<IGitLogEntry>): string
+{
+    if (entries.length === 0)
+    {
+        return "No changes.";
+    }
+
+    const groupedLines: {[title: string]: Array<string>} = {};
+    const addLine = (title: string, line: string) => {
+        groupedLines[title] = (groupedLines[title] || []).concat(line);
+    };
+
+    _.forEach(entries, (curEntry) => {
+        const header = _.trim(curEntry.message.split("\n")[0]);
+        const commit = parseConventionalCommit(curEntry.message);
+        const author = _.trim(curEntry.author.replace(/<[^>]*>/, ""));
+
+        const description = commit ?
+                            (commit.scope ? `**${commit.scope}:** ${commit.description}` : commit.description) :
+                            header;
+        const line = `- ${description} (${curEntry.commitHash.slice(0, 7)}, ${author})`;
+
+        if (commit && commit.breaking)
+        {
+            addLine(breakingChangesTitle, line);
+        }
+
+        const group = commit && _.find(groups, (curGroup) => _.includes(curGroup.types, commit.type));
+        addLine(group ? group.title : otherChangesTitle, line);
+    });
+
+    const titles = [breakingChangesTitle].concat(_.map(groups, (curGroup) => curGroup.title), otherChangesTitle);
+    return _.chain(titles)
+    .filter((curTitle) => groupedLines[curTitle] !== undefined)
+    .map((curTitle) => [`### ${curTitle}`].concat(groupedLines[curTitle]).join("\n"))
+    .value()
+    .join("\n\n");
+}
@@ -0,0 +1,32 @@
+import {getCiBranchName} from "./sourceBranch";
+
+
+describe("getCiBranchName()", () => {
+
+
+    it("reads the branch set by common CI systems", () => {
+        expect(getCiBranchName({GITHUB_REF: "refs/heads/feature/foo"})).toEqual("feature/foo");
+        expect(getCiBranchName({CI_COMMIT_BRANCH: "master"})).toEqual("master");
+        expect(getCiBranchName({BUILD_SOURCEBRANCH: "refs/heads/release/1.x"})).toEqual("release/1.x");
+        expect(getCiBranchName({TRAVIS_BRANCH: "master", TRAVIS_PULL_REQUEST: "false"})).toEqual("master");
+        expect(getCiBranchName({CIRCLE_BRANCH: "master"})).toEqual("master");
+        expect(getCiBranchName({BITBUCKET_BRANCH: "master"})).toEqual("master");
+        expect(getCiBranchName({BUILDKITE_BRANCH: "master"})).toEqual("master");
+        expect(getCiBranchName({BRANCH_NAME: "master"})).toEqual("master");
+    });
+
+
+    it("ignores pull request builds", () => {
+        expect(getCiBranchName({GITHUB_REF: "refs/pull/12/merge"})).toEqual(undefined);
+        expect(getCiBranchName({BUILD_SOURCEBRANCH: "refs/pull/12/merge"})).toEqual(undefined);
+        expect(getCiBranchName({TRAVIS_BRANCH: "master", TRAVIS_PULL_REQUEST: "12"})).toEqual(undefined);
+        expect(getCiBranchName({BRANCH_NAME: "PR-12", CHANGE_ID: "12"})).toEqual(undefined);
+    });
+
+
+    it("returns undefined when no CI variables are set", () => {
+        expect(getCiBranchName({})).toEqual(undefined);
+    });
+
+
+});
@@ -0,0 +1,110 @@
+import * as _ from "lodash";
+import {GitRepo} from "./depot/gitRepo";
+
+
+/**
+ * The branch that the commit being published belongs to.
+ */
+export interface ISourceBranch
+{
+    /**
+     * The branch's name
+     */
+    name: string;
+    /**
+     * Whether the branch was specified explicitly or by a CI environment
+     * variable (as opposed to being the branch HEAD points to).  In this case,
+     * HEAD may be detached and the branch is only known to exist on the
+     * remote.
+     */
+    ci: boolean;
+}
+
+
+/**
+ * Functions that attempt to get the branch being built from the environment
+ * variables set by common CI systems.  Variables that are set for pull request
+ * builds are deliberately not used, because those builds check out a merge
+ * commit that is not on the branch.
+ */
+const ciBranchReaders: Array<(env: {[name: string]: string | undefined}) => string | undefined> = [
+    // GitHub Actions
+    (env) => stripPrefix(env.GITHUB_REF, "refs/heads/"),
+    // GitLab CI
+    (env) => env.CI_COMMIT_BRANCH,
+    // Azure Pipelines
+    (env) => stripPrefix(env.BUILD_SOURCEBRANCH, "refs/heads/"),
+    // Travis CI
+    (env) => env.TRAVIS_PULL_REQUEST === "false" ? env.TRAVIS_BRANCH : undefined,
+    // CircleCI
+    (env) => env.CIRCLE_BRANCH,
+    // Bitbucket Pipelines
+    (env) => env.BITBUCKET_BRANCH,
+    // Buildkite
+    (env) => env.BUILDKITE_BRANCH,
+    // Jenkins (multibranch pipelines).  Pull request builds set BRANCH_NAME to
+    // the pull request's name (e.g. "PR-12") and also set CHANGE_ID.
+    (env) => env.CHANGE_ID ? undefined : env.BRANCH_NAME
+];
+
+
+/**
+ * Determines the branch being published.  If a branch name is specified, it
+ * is used.  Otherwise, the branch HEAD points to is used.  If HEAD is detached
+ * (as it is in most CI systems), the branch is taken from the CI system's
+ * environment variables.
+ * @param devRepo - The development repo
+ * @param sourceBranchName - The name of the branch being published, if it has
+ * been specified explicitly
+ * @param env - The environment variables to inspect
+ * @return A Promise for the source branch.  The Promise resolves with
+ * undefined if HEAD is detached and the branch could not be determined.
+ */
+export async function getSourceBranch(
+    devRepo: GitRepo,
+    sourceBranchName?: string,
+    env: {[name: string]: string | undefined} = process.env
+): Promise<ISourceBranch | undefined>
+{
+    if (sourceBranchName)
+    {
+        return {name: sourceBranchName, ci: true};
+    }
+
+    const curBranch = await devRepo.getCurrentBranch();
+    if (curBranch)
+    {
+        return {name: curBranch.name, ci: false};
+    }
+
+    const ciBranchName = getCiBranchName(env);
+    return ciBranchName ? {name: ciBranchName, ci: true} : undefined;
+}
+
+
+/**
+ * Gets the name of the branch being built from the environment variables set
+ * by common CI systems.
+ * @param env - The environment variables to inspect
+ * @return The branch's name, or undefined if it could not be determined
+ * (e.g. because this is a pull request build)
+ */
+export function getCiBranchName(env: {[name: string]: string | undefined}): string | undefined
+{
+    for (const curReader of ciBranchReaders)
+    {
+        const ciBranchName = curReader(env);
+        if (ciBranchName)
+        {
+            return ciBranchName;
+        }
+    }
+
+    return undefined;
+}
+
+
+function stripPrefix(str: string | undefined, prefix: string): string | undefined
+{
+    return (str && _.startsWith(str, prefix)) ? str.slice(prefix.length) : undefined;
+}
@@ -0,0 +1,69 @@
+import * as _ from "lodash";
+import * as yargs from "yargs";
+import {Directory} from "./depot/directory";
+import {tracePublish} from "./tracePublish";
+import {formatTable, printError} from "./cliHelpers";
+
+
+/**
+ * The "trace" command.  Maps a published build back to its source.
+ */
+export const traceCommand: yargs.CommandModule = {
+    command: "trace <ref> [packageDir]",
+    describe: "Show the source commit and branch a published tag or commit was built from",
+    builder: function builder(argv: yargs.Argv): yargs.Argv {
+        return argv
+        .positional("ref", {
+            describe: "A publish tag name or publish commit hash",
+            type: "string"
+        })
+        .positional("packageDir", {
+            describe: "The directory containing the package",
+            type: "string",
+            default: "."
+        })
+        .option("remote",
+            {
+                type: "string",
+                demandOption: false,
+                describe: "Fetch from the specified remote before tracing"
+            }
+        );
+    },
+    handler: function handler(args: yargs.Arguments): void {
+        tracePublish({
+            packageDir: new Directory(args.packageDir),
+            ref:        String(args.ref),
+            remote:     args.remote
+        })
+        .then((result) => {
+            const rows = [
+                ["Publish commit:", result.publishCommit.toString()],
+                ["Tags:",           _.map(result.tags, (curTag) => curTag.tagName).join(", ")],
+                ["Source commit:",  result.sourceCommit.toString()],
+                ["Source branch:",  result.sourceBranch],
+                ["Source exists:",  result.sourceCommitExists ? "yes" : "no"],
+                ["Remote branches containing source:", result.sourceRemoteBranches.join(", ") || "(none)"]
+            ];
+            console.log(formatTable(rows));
+
+            if (!result.sourceCommitExists)
+            {
+                console.log(`Warning: Source commit ${result.sourceCommit.toShortString()} does not exist in this repository.`);
+                process.exit(1);
+            }
+
+            if (result.sourceRemoteBranches.length === 0)
+            {
+                console.log(`Warning: Source commit ${result.sourceCommit.toShortString()} is not reachable from any remote branch.`);
+                process.exit(1);
+            }
+
+            process.exit(0);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
+        });
+    }
+};
@@ -0,0 +1,109 @@
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {GitRepo} from "./depot/gitRepo";
+import {CommitHash} from "./depot/commitHash";
+import {IPublishTag, sortPublishTags, toPublishTag} from "./publishTags";
+
+
+export interface ITracePublishOptions
+{
+    /**
+     * The directory containing the package
+     */
+    packageDir: Directory;
+    /**
+     * A publish tag name or publish commit hash
+     */
+    ref: string;
+    /**
+     * If specified, tags and branches are fetched from this remote before
+     * tracing
+     */
+    remote?: string;
+}
+
+
+export interface ITracePublishResult
+{
+    /**
+     * The publish commit
+     */
+    publishCommit: CommitHash;
+    /**
+     * All publish tags that point to the publish commit
+     */
+    tags: Array<IPublishTag>;
+    /**
+     * The commit the publish commit was built from
+     */
+    sourceCommit: CommitHash;
+    /**
+     * The branch the source commit was on when it was published
+     */
+    sourceBranch: string;
+    /**
+     * Whether the source commit exists in the repo
+     */
+    sourceCommitExists: boolean;
+    /**
+     * The remote-tracking branches that contain the source commit
+     */
+    sourceRemoteBranches: Array<string>;
+}
+
+
+/**
+ * Maps a published build back to the source it was built from.
+ * @param options - Options identifying the published build
+ * @return A Promise for a description of the published build's source
+ */
+export async function tracePublish(options: ITracePublishOptions): Promise<ITracePublishResult>
+{
+    const repo = await GitRepo.fromSubdirectory(options.packageDir);
+
+    if (options.remote)
+    {
+        await repo.fetch(options.remote, true);
+    }
+
+    // Find the publish commit.  If ref is the name of a tag, prefer it over
+    // any other interpretation.
+    const isTag = await repo.hasTag(options.ref);
+    const publishCommit = await repo.resolveCommit(isTag ? `refs/tags/${options.ref}` : options.ref);
+    if (!publishCommit)
+    {
+        throw new Error(`"${options.ref}" is not a tag or commit in this repository.`);
+    }
+
+    // Find all publish tags on the publish commit.
+    const tagNames = await repo.tagsPointingAt(publishCommit);
+    const allTagDetails = await repo.getTagDetails();
+    const tags = sortPublishTags(_.compact(_.map(
+        _.filter(allTagDetails, (curTag) => _.includes(tagNames, curTag.name)),
+        toPublishTag
+    )));
+
+    if (tags.length === 0)
+    {
+        throw new Error(`Commit ${publishCommit.toShortString()} does not have any tags created by publishtogit.`);
+    }
+
+    // Get the source information from the specified tag (if one was specified)
+    // or the first publish tag.
+    const sourceTag = _.find(tags, (curTag) => curTag.tagName === options.ref) || tags[0];
+    const sourceCommit = sourceTag.sourceCommit;
+
+    const sourceCommitExists = (await repo.resolveCommit(sourceCommit.toString())) !== undefined;
+    const sourceRemoteBranches = sourceCommitExists ?
+                                 await repo.getRemoteBranchesContaining(sourceCommit) :
+                                 [];
+
+    return {
+        publishCommit:        publishCommit,
+        tags:                 tags,
+        sourceCommit:         sourceCommit,
+        sourceBranch:         sourceTag.sourceBranch,
+        sourceCommitExists:   sourceCommitExists,
+        sourceRemoteBranches: sourceRemoteBranches
+    };
+}
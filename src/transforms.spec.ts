@@ -0,0 +1,147 @@
+import * as path from "path";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {applyTransforms, rebaseTransformSpec, validateTransformSpec} from "./transforms";
+
+
+describe("validateTransformSpec()", () => {
+
+
+    it("accepts built-in names, module paths and object specs", () => {
+        expect(validateTransformSpec("remove-types")).toEqual(undefined);
+        expect(validateTransformSpec("./tools/transform.js")).toEqual(undefined);
+        expect(validateTransformSpec({name: "set-fields", options: {main: "index.js"}})).toEqual(undefined);
+    });
+
+
+    it("rejects unknown names", () => {
+        expect(validateTransformSpec("remove-everything")).toContain("unknown transform (remove-everything)");
+        expect(validateTransformSpec("tools/transform.js")).toContain("unknown transform");
+    });
+
+
+    it("rejects malformed specs", () => {
+        expect(validateTransformSpec(5)).toBeDefined();
+        expect(validateTransformSpec({options: {}})).toBeDefined();
+        expect(validateTransformSpec({name: "set-private", extra: true})).toBeDefined();
+    });
+
+
+});
+
+
+describe("rebaseTransformSpec()", () => {
+
+
+    const rootDir = new Directory(path.resolve("/repo"));
+    const pkgDir = new Directory(rootDir, "packages", "alpha");
+
+
+    it("makes module paths absolute", () => {
+        const absPath = path.join(rootDir.absPath(), "tools", "transform.js");
+        expect(rebaseTransformSpec("./tools/transform.js", rootDir)).toEqual(absPath);
+        expect(rebaseTransformSpec({name: "./tools/transform.js", options: {a: 1}}, rootDir))
+        .toEqual({name: absPath, options: {a: 1}});
+    });
+
+
+    it("makes module paths relative to another directory", () => {
+        expect(rebaseTransformSpec("./tools/transform.js", rootDir, pkgDir))
+        .toEqual(["..", "..", "tools", "transform.js"].join(path.sep));
+        expect(rebaseTransformSpec("./tools/transform.js", pkgDir, pkgDir))
+        .toEqual([".", "tools", "transform.js"].join(path.sep));
+    });
+
+
+    it("leaves built-in transforms unchanged", () => {
+        expect(rebaseTransformSpec("remove-types", rootDir, pkgDir)).toEqual("remove-types");
+    });
+
+
+});
+
+
+describe("applyTransforms()", () => {
+
+
+    const tmpDir = new Directory(__dirname, "..", "tmp", "transforms");
+    const pkgJson = new File(tmpDir, "package.json");
+    const context = {packageDir: tmpDir, publishDir: tmpDir};
+
+
+    beforeEach(() => {
+        tmpDir.emptySync();
+        pkgJson.writeJsonSync({
+            name:            "sample",
+            version:         "1.2.3",
+            main:            "src/index.js",
+            scripts:         {build: "tsc"},
+            publishConfig:   {access: "public"},
+            dependencies:    {"lodash": "^4.0.0", "@types/lodash": "^4.0.0"},
+            devDependencies: {"@types/node": "*", "typescript": "^2.9.0"}
+        });
+    });
+
+
+    it("applies the built-in transforms in order", async () => {
+        await applyTransforms(
+            pkgJson,
+            [
+                "remove-types",
+                "remove-scripts",
+                "remove-publish-config",
+                "set-private",
+                {name: "set-fields", options: {main: "dist/index.js", types: "dist/index.d.ts"}},
+                {name: "remove-fields", options: ["version"]}
+            ],
+            context
+        );
+
+        expect(pkgJson.readJsonSync<any>()).toEqual({
+            name:            "sample",
+            main:            "dist/index.js",
+            types:           "dist/index.d.ts",
+            private:         true,
+            dependencies:    {lodash: "^4.0.0"},
+            devDependencies: {typescript: "^2.9.0"}
+        });
+    });
+
+
+    it("removes types from a package.json without dependencies", async () => {
+        pkgJson.writeJsonSync({name: "sample", version: "1.2.3"});
+        await applyTransforms(pkgJson, ["remove-types", "remove-dev-dependencies"], context);
+        expect(pkgJson.readJsonSync<any>()).toEqual({name: "sample", version: "1.2.3"});
+    });
+
+
+    it("describes each transform's changes with a diff", async () => {
+        const applied = await applyTransforms(pkgJson, ["remove-scripts", "remove-scripts"], context);
+        expect(applied[0].name).toEqual("remove-scripts");
+        expect(applied[0].diff).toContain("-     \"scripts\": {");
+        expect(applied[0].diff).toContain("-         \"build\": \"tsc\"");
+        expect(applied[1].diff).toEqual("");
+    });
+
+
+    it("loads transform modules relative to the package directory", async () => {
+        new File(tmpDir, "addField.js").writeSync(
+            "module.exports = function (pkgJson, options) { return {name: pkgJson.name, label: options.label}; };\n"
+        );
+        await applyTransforms(pkgJson, [{name: "./addField.js", options: {label: "nightly"}}], context);
+        expect(pkgJson.readJsonSync<any>()).toEqual({name: "sample", label: "nightly"});
+    });
+
+
+    it("rejects when a built-in transform's options are invalid", async () => {
+        try {
+            await applyTransforms(pkgJson, [{name: "set-fields", options: ["main"]}], context);
+            fail("applyTransforms() should have rejected.");
+        }
+        catch (err) {
+            expect(err.message).toContain("The set-fields transform failed");
+        }
+    });
+
+
+});
@@ -0,0 +1,338 @@
+import * as path from "path";
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {isStringArray} from "./depot/arrayHelpers";
+import {File} from "./depot/file";
+
+
+/**
+ * Identifies a transform to apply to the published package.json.  Either the
+ * name of a built-in transform or the path of a JavaScript module (relative to
+ * the package directory) can be used.  Options can be passed to the transform
+ * using the object form.
+ */
+export type TransformSpec = string | {name: string, options?: any};
+
+
+/**
+ * Information about the publish operation that is passed to each transform.
+ */
+export interface ITransformContext
+{
+    /**
+     * The directory containing the package being published
+     */
+    packageDir: Directory;
+    /**
+     * The directory containing the published content
+     */
+    publishDir: Directory;
+}
+
+
+/**
+ * A function that transforms the published package.json.  It may modify the
+ * package.json object it is given or return a new one.  It may also return a
+ * Promise for either.
+ */
+export type PackageJsonTransform = (pkgJson: any, options: any, context: ITransformContext) => any;
+
+
+/**
+ * Describes the effect of a transform that was applied.
+ */
+export interface IAppliedTransform
+{
+    /**
+     * The transform's name (or module path)
+     */
+    name: string;
+    /**
+     * A line-based diff of package.json before and after the transform.
+     * Empty if the transform did not change anything.
+     */
+    diff: string;
+}
+
+
+/**
+ * Creates a transform that deletes the specified package.json properties.
+ * @param fieldNames - The names of the properties to delete
+ * @return The transform
+ */
+function removeFields(fieldNames: Array<string>): PackageJsonTransform
+{
+    return (pkgJson) => {
+        _.forEach(fieldNames, (curFieldName) => {
+            delete pkgJson[curFieldName];
+        });
+    };
+}
+
+
+const builtInTransforms: {[name: string]: PackageJsonTransform} = {
+    // Removes "@types" packages from dependencies and devDependencies.
+    "remove-types": (pkgJson) => {
+        _.forEach(["dependencies", "devDependencies"], (curProp) => {
+            _.forEach(Object.keys(pkgJson[curProp] || {}), (curPackageName) => {
+                if (/^@types\//.test(curPackageName))
+                {
+                    delete pkgJson[curProp][curPackageName];
+                }
+            });
+        });
+    },
+    "remove-dev-dependencies": removeFields(["devDependencies"]),
+    "remove-scripts":          removeFields(["scripts"]),
+    "remove-publish-config":   removeFields(["publishConfig"]),
+    "set-private": (pkgJson) => {
+        pkgJson.private = true;
+    },
+    // options: An array of the names of the properties to delete
+    "remove-fields": (pkgJson, options) => {
+        if (!isStringArray(options))
+        {
+            throw new Error("Its options must be an array of property names.");
+        }
+        _.forEach(options, (curFieldName) => {
+            delete pkgJson[curFieldName];
+        });
+    },
+    // options: An object containing the properties to set (e.g. {"main":
+    // "dist/index.js", "types": "dist/index.d.ts"})
+    "set-fields": (pkgJson, options) => {
+        if (!_.isPlainObject(options))
+        {
+            throw new Error("Its options must be an object containing the properties to set.");
+        }
+        _.assign(pkgJson, options);
+    }
+};
+
+
+/**
+ * The names of the built-in transforms.
+ */
+export const transformNames = Object.keys(builtInTransforms);
+
+
+/**
+ * Gets the name of the transform identified by a spec.
+ * @param spec - The transform spec
+ * @return The built-in transform's name or the module's path
+ */
+export function getTransformName(spec: TransformSpec): string
+{
+    return _.isString(spec) ? spec : spec.name;
+}
+
+
+/**
+ * Determines whether a transform name refers to a JavaScript module (as
+ * opposed to a built-in transform).
+ * @param name - The transform name
+ * @return true if name is a module path
+ */
+export function isTransformModule(name: string): boolean
+{
+    return /^\.{1,2}[\/\\]/.test(name) || path.isAbsolute(name);
+}
+
+
+/**
+ * Changes the directory that a transform module's path is relative to.
+ * @param spec - The transform spec
+ * @param fromDir - The directory the module's path is currently relative to
+ * @param toDir - The directory the resulting path will be relative to.  If not
+ * specified, the resulting path is absolute.
+ * @return The resulting spec.  Built-in transforms are returned unchanged.
+ */
+export function rebaseTransformSpec(spec: TransformSpec, fromDir: Directory, toDir?: Directory): TransformSpec
+{
+    const name = getTransformName(spec);
+    if (!isTransformModule(name))
+    {
+        return spec;
+    }
+
+    let newName = path.resolve(fromDir.absPath(), name);
+    if (toDir)
+    {
+        // Relative module paths must start with "./" or "../".
+        newName = path.relative(toDir.absPath(), newName);
+        newName = isTransformModule(newName) ? newName : `.${path.sep}${newName}`;
+    }
+
+    return _.isString(spec) ? newName : _.assign({}, spec, {name: newName});
+}
+
+
+/**
+ * Validates a transform spec.
+ * @param spec - The spec to validate
+ * @return A description of the problem or undefined if the spec is valid
+ */
+export function validateTransformSpec(spec: any): string | undefined
+{
+    const isObjectSpec = _.isPlainObject(spec) &&
+                         _.isString(spec.name) &&
+                         _.difference(Object.keys(spec), ["name", "options"]).length === 0;
+    if (!_.isString(spec) && !isObjectSpec)
+    {
+        return "must be a transform name or an object with \"name\" and \"options\" properties";
+    }
+
+    const name = getTransformName(spec);
+    if (!builtInTransforms[name] && !isTransformModule(name))
+    {
+        return `refers to an unknown transform (${name}).  Valid transforms are: ${transformNames.join(", ")} ` +
+               "or a module path starting with ./ or ../";
+    }
+}
+
+
+/**
+ * Applies transforms to a published package.json file.  The transforms are
+ * applied in order.
+ * @param pkgJson - The published package.json file
+ * @param specs - The transforms to apply
+ * @param context - Information about the publish operation
+ * @return A Promise for a description of what each transform changed
+ */
+export async function applyTransforms(
+    pkgJson: File,
+    specs: Array<TransformSpec>,
+    context: ITransformContext
+): Promise<Array<IAppliedTransform>>
+{
+    if (specs.length === 0)
+    {
+        return [];
+    }
+
+    if (!pkgJson.existsSync())
+    {
+        throw new Error("Did not find a package.json file in the published contents.");
+    }
+
+    let pkgJsonContents = pkgJson.readJsonSync<any>();
+    const applied: Array<IAppliedTransform> = [];
+
+    for (const curSpec of specs)
+    {
+        const name = getTransformName(curSpec);
+        const options = _.isString(curSpec) ? undefined : curSpec.options;
+        const transform = await loadTransform(name, context.packageDir);
+
+        const before = JSON.stringify(pkgJsonContents, undefined, 4);
+        const input = _.cloneDeep(pkgJsonContents);
+        let result: any;
+        try {
+            result = await transform(input, options, context);
+        }
+        catch (err) {
+            throw new Error(`The ${name} transform failed: ${err.message || err}`);
+        }
+
+        // A transform may either modify the object it was given (and return
+        // nothing) or return a new one.
+        if (result !== undefined && !_.isPlainObject(result))
+        {
+            throw new Error(`The ${name} transform did not return an object.`);
+        }
+
+        pkgJsonContents = result === undefined ? input : result;
+        applied.push({name: name, diff: diffLines(before, JSON.stringify(pkgJsonContents, undefined, 4))});
+    }
+
+    pkgJson.writeJsonSync(pkgJsonContents);
+    return applied;
+}
+
+
+/**
+ * Loads a transform.
+ * @param name - The name of a built-in transform or the path of a module
+ * (relative to packageDir)
+ * @param packageDir - The directory containing the package being published
+ * @return A Promise for the transform function
+ */
+async function loadTransform(name: string, packageDir: Directory): Promise<PackageJsonTransform>
+{
+    const builtIn = builtInTransforms[name];
+    if (builtIn)
+    {
+        return builtIn;
+    }
+
+    const modulePath = path.resolve(packageDir.absPath(), name);
+    let transformModule: any;
+    try {
+        transformModule = await import(modulePath);
+    }
+    catch (err) {
+        // Omit the require stack that Node appends to the message.
+        throw new Error(`Unable to load the transform module ${modulePath}: ${err.message.split("\n")[0]}`);
+    }
+
+    // Support CommonJS (module.exports = fn), named (exports.transform = fn)
+    // and default exports.
+    const transform = _.find([transformModule, transformModule.transform, transformModule.default], _.isFunction);
+    if (!transform)
+    {
+        throw new Error(`The transform module ${modulePath} does not export a function.`);
+    }
+    return transform;
+}
+
+
+/**
+ * Creates a line-based diff of two strings.  Removed lines are prefixed with
+ * "-", added lines with "+" and unchanged lines surrounding a change with " ".
+ * @param before - The original text
+ * @param after - The new text
+ * @return The diff or an empty string if the texts are the same
+ */
+function diffLines(before: string, after: string): string
+{
+    const a = before.split("\n");
+    const b = after.split("\n");
+
+    // Compute the lengths of the longest common subsequences.
+    const lcs: Array<Array<number>> = _.map(_.range(a.length + 1), () => _.fill(Array(b.length + 1), 0));
+    for (let i = a.length - 1; i >= 0; i--)
+    {
+        for (let j = b.length - 1; j >= 0; j--)
+        {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: Array<{op: string, text: string}> = [];
+    let ai = 0;
+    let bi = 0;
+    while (ai < a.length || bi < b.length)
+    {
+        if (ai < a.length && bi < b.length && a[ai] === b[bi])
+        {
+            lines.push({op: " ", text: a[ai++]});
+            bi++;
+        }
+        else if (ai < a.length && (bi >= b.length || lcs[ai + 1][bi] >= lcs[ai][bi + 1]))
+        {
+            lines.push({op: "-", text: a[ai++]});
+        }
+        else
+        {
+            lines.push({op: "+", text: b[bi++]});
+        }
+    }
+
+    // Only show the unchanged lines adjacent to a change.
+    const isChanged = (index: number) => lines[index] !== undefined && lines[index].op !== " ";
+    return _.chain(lines)
+    .filter((curLine, index) => isChanged(index) || isChanged(index - 1) || isChanged(index + 1))
+    .map((curLine) => `${curLine.op} ${curLine.text}`)
+    .value()
+    .join("\n");
+}
@@ -0,0 +1,67 @@
+import * as _ from "lodash";
+import * as yargs from "yargs";
+import {Directory} from "./depot/directory";
+import {verifyPublish} from "./verifyPublish";
+import {PublishProgress, IPublishProgressEvent} from "./publishProgress";
+import {printError} from "./cliHelpers";
+
+
+/**
+ * The "verify" command.  Rebuilds a publish tag from its source commit and
+ * compares the results with the tagged contents.
+ */
+export const verifyCommand: yargs.CommandModule = {
+    command: "verify <tag> [packageDir]",
+    describe: "Verify that a publish tag contains what its source commit produces",
+    builder: function builder(argv: yargs.Argv): yargs.Argv {
+        return argv
+        .positional("tag", {
+            describe: "The publish tag to verify",
+            type: "string"
+        })
+        .positional("packageDir", {
+            describe: "The directory containing the package",
+            type: "string",
+            default: "."
+        });
+    },
+    handler: function handler(args: yargs.Arguments): void {
+        const progress = new PublishProgress();
+        progress.on("progress", (event: IPublishProgressEvent) => {
+            console.log(event.message);
+        });
+
+        verifyPublish({
+            packageDir: new Directory(args.packageDir),
+            tagName:    String(args.tag),
+            progress:   progress
+        })
+        .then((result) => {
+            const differences = _.concat(
+                _.map(result.added,   (curPath) => `added:   ${curPath}`),
+                _.map(result.removed, (curPath) => `removed: ${curPath}`),
+                _.map(result.changed, (curPath) => `changed: ${curPath}`)
+            );
+
+            if (differences.length === 0)
+            {
+                console.log(
+                    `Verified: ${result.tag.tagName} matches the contents published from ` +
+                    `source commit ${result.tag.sourceCommit.toShortString()}.`
+                );
+                process.exit(0);
+            }
+
+            console.log(
+                `Mismatch: ${result.tag.tagName} differs from the contents published from ` +
+                `source commit ${result.tag.sourceCommit.toShortString()}:`
+            );
+            console.log(_.map(differences, (curDiff) => `    ${curDiff}`).join("\n"));
+            process.exit(1);
+        })
+        .catch((err) => {
+            printError(err);
+            process.exit(1);
+        });
+    }
+};
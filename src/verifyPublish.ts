@@ -0,0 +1,176 @@
+import * as path from "path";
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {GitRepo} from "./depot/gitRepo";
+import {NodePackage} from "./depot/nodePackage";
+import {config as globalConfig} from "./publishToGitConfig";
+import {getProjectConfig} from "./projectConfig";
+import {IPublishTag, toPublishTag, parsePublishAnnotation} from "./publishTags";
+import {PublishProgress} from "./publishProgress";
+import {finishPublishedContents} from "./publishedContents";
+import {cleanBuild} from "./cleanBuild";
+
+
+export interface IVerifyPublishOptions
+{
+    /**
+     * The directory containing the package
+     */
+    packageDir: Directory;
+    /**
+     * The name of the publish tag to verify
+     */
+    tagName: string;
+    /**
+     * An emitter that will be notified as each phase is started
+     */
+    progress?: PublishProgress;
+}
+
+
+export interface IVerifyPublishResult
+{
+    /**
+     * The tag that was verified
+     */
+    tag: IPublishTag;
+    /**
+     * Files present in the tagged tree that are not in the rebuilt package
+     */
+    added: Array<string>;
+    /**
+     * Files present in the rebuilt package that are missing from the tagged
+     * tree
+     */
+    removed: Array<string>;
+    /**
+     * Files whose contents differ between the tagged tree and the rebuilt
+     * package
+     */
+    changed: Array<string>;
+}
+
+
+/**
+ * Verifies that the contents of a publish tag are what is produced by
+ * publishing the source commit recorded in the tag's annotation.  The changes
+ * recorded in the annotation (such as transforms and the published version)
+ * are replayed.
+ * @param options - Options identifying the tag to verify
+ * @return A Promise for a description of the differences found
+ */
+export async function verifyPublish(options: IVerifyPublishOptions): Promise<IVerifyPublishResult>
+{
+    const progress = options.progress || new PublishProgress();
+    const projectConfig = getProjectConfig(options.packageDir);
+    globalConfig.init(projectConfig.tmpDir ? new Directory(projectConfig.tmpDir) : undefined);
+
+    const devRepo = await GitRepo.fromSubdirectory(options.packageDir);
+    const tagDetails = _.find(await devRepo.getTagDetails(), (curTag) => curTag.name === options.tagName);
+    if (!tagDetails)
+    {
+        throw new Error(`Tag ${options.tagName} does not exist.`);
+    }
+
+    const tag = toPublishTag(tagDetails);
+    const annotation = parsePublishAnnotation(tagDetails.message);
+    if (!tag || !annotation)
+    {
+        throw new Error(`Tag ${options.tagName} was not created by publishtogit.`);
+    }
+
+    // Create a clean clone of the repo in which the source commit can be
+    // checked out.
+    const cloneParentDir = new Directory(globalConfig.tmpDir, "verify");
+    cloneParentDir.deleteSync();
+    cloneParentDir.ensureExistsSync();
+    progress.report("clone", `Creating temporary repo clone in ${cloneParentDir.toString()}...`);
+    const cloneRepo = await GitRepo.clone(devRepo.directory.absolute(), cloneParentDir);
+
+    progress.report("checkout", `Checking out source commit ${tag.sourceCommit.toShortString()}...`);
+    await cloneRepo.checkoutCommit(tag.sourceCommit);
+
+    // Publish the source commit's package (or, if the tag was published from a
+    // clean build, a fresh build of it) into a scratch directory.
+    const rebuiltDir = new Directory(globalConfig.tmpDir, "verify-rebuilt");
+    rebuiltDir.deleteSync();
+    const packageSubpath = devRepo.getRelativePath(options.packageDir);
+    let packedPkg = await NodePackage.fromDirectory(new Directory(cloneRepo.directory, packageSubpath));
+    let buildParentDir: Directory | undefined;
+    if (annotation.cleanBuild)
+    {
+        buildParentDir = new Directory(globalConfig.tmpDir, "verify-build");
+        packedPkg = await cleanBuild({
+            devRepo:        devRepo,
+            packageSubpath: packageSubpath,
+            commit:         tag.sourceCommit,
+            buildScript:    annotation.buildScript,
+            buildParentDir: buildParentDir,
+            progress:       progress
+        });
+        progress.report("pack", `Publishing clean build contents to ${rebuiltDir.toString()}...`);
+    }
+    else
+    {
+        progress.report("pack", `Publishing source commit contents to ${rebuiltDir.toString()}...`);
+    }
+    await packedPkg.publish(rebuiltDir, true, globalConfig.tmpDir);
+
+    await finishPublishedContents({
+        packageDir:         packedPkg.directory,
+        publishDir:         rebuiltDir,
+        publishVersion:     annotation.publishVersion || packedPkg.config.version,
+        releaseNotes:       annotation.releaseNotesFile ? annotation.releaseNotes : undefined,
+        workspaceUrls:      annotation.workspaceDependencies || {},
+        transforms:         annotation.transforms || [],
+        dependencyRewrites: annotation.dependencyRewrites || {},
+        dryRun:             false,
+        progress:           progress
+    });
+
+    if (buildParentDir)
+    {
+        await buildParentDir.delete();
+    }
+
+    // Checkout the tagged tree so it can be compared.
+    progress.report("checkout", `Checking out ${tag.tagName} (${tag.publishCommit.toShortString()})...`);
+    await cloneRepo.checkoutCommit(tag.publishCommit);
+
+    const taggedHashes = await getFileHashes(cloneRepo.directory, await cloneRepo.files());
+    const rebuiltHashes = await getFileHashes(rebuiltDir, await rebuiltDir.files(true));
+
+    const taggedPaths = Object.keys(taggedHashes);
+    const rebuiltPaths = Object.keys(rebuiltHashes);
+
+    return {
+        tag:     tag,
+        added:   _.difference(taggedPaths, rebuiltPaths).sort(),
+        removed: _.difference(rebuiltPaths, taggedPaths).sort(),
+        changed: _.filter(_.intersection(taggedPaths, rebuiltPaths), (curPath) => {
+            return taggedHashes[curPath] !== rebuiltHashes[curPath];
+        }).sort()
+    };
+}
+
+
+/**
+ * Calculates the hash of each of the specified files.
+ * @param rootDir - The directory that the resulting paths will be relative to
+ * @param files - The files to hash
+ * @return A Promise for an object whose keys are the files' paths (relative to
+ * rootDir) and whose values are the files' hashes
+ */
+async function getFileHashes(rootDir: Directory, files: Array<File>): Promise<{[relPath: string]: string}>
+{
+    const existingFiles = _.filter(files, (curFile) => Boolean(curFile.existsSync()));
+    const hashes = await Promise.all(_.map(existingFiles, (curFile) => curFile.getHash()));
+
+    const result: {[relPath: string]: string} = {};
+    _.forEach(existingFiles, (curFile, index) => {
+        const relPath = path.relative(rootDir.absPath(), curFile.absPath()).split(path.sep).join("/");
+        result[relPath] = hashes[index];
+    });
+    return result;
+}
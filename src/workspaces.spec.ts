@@ -0,0 +1,105 @@
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {File} from "./depot/file";
+import {NodePackage} from "./depot/nodePackage";
+import {sortByDependencies, rewriteWorkspaceDependencies} from "./workspaces";
+
+
+describe("sortByDependencies()", () => {
+
+
+    const tmpDir = new Directory(__dirname, "..", "tmp", "workspaces");
+
+
+    /**
+     * Creates a workspace package in the temporary directory.
+     * @param name - The package's name
+     * @param dependencies - The package's dependencies, keyed by the
+     * package.json property they appear in
+     * @return A Promise for the package
+     */
+    function createPackage(name: string, dependencies: {[property: string]: Array<string>} = {}): Promise<NodePackage>
+    {
+        const pkgDir = new Directory(tmpDir, name);
+        pkgDir.ensureExistsSync();
+
+        const pkgJson: any = {name: name, version: "1.0.0"};
+        _.forOwn(dependencies, (names, property) => {
+            pkgJson[property] = _.fromPairs(_.map(names, (curName) => [curName, "^1.0.0"]));
+        });
+        new File(pkgDir, "package.json").writeJsonSync(pkgJson);
+
+        return NodePackage.fromDirectory(pkgDir);
+    }
+
+
+    beforeEach(() => {
+        tmpDir.emptySync();
+    });
+
+
+    it("places each package after the packages it depends on", async () => {
+        const pkgs = [
+            await createPackage("app", {dependencies: ["core", "lodash"], optionalDependencies: ["testing"]}),
+            await createPackage("core"),
+            await createPackage("testing", {peerDependencies: ["core"]})
+        ];
+
+        const sorted = _.map(sortByDependencies(pkgs), (curPkg) => curPkg.config.name);
+        expect(sorted).toEqual(["core", "testing", "app"]);
+    });
+
+
+    it("ignores devDependencies, even when they are circular", async () => {
+        const pkgs = [
+            await createPackage("test-utils", {dependencies: ["core"]}),
+            await createPackage("core", {devDependencies: ["test-utils"]})
+        ];
+
+        const sorted = _.map(sortByDependencies(pkgs), (curPkg) => curPkg.config.name);
+        expect(sorted).toEqual(["core", "test-utils"]);
+    });
+
+
+    it("keeps the original order of independent packages", async () => {
+        const pkgs = [await createPackage("b"), await createPackage("a")];
+        const sorted = _.map(sortByDependencies(pkgs), (curPkg) => curPkg.config.name);
+        expect(sorted).toEqual(["b", "a"]);
+    });
+
+
+    it("throws when the dependencies are circular", async () => {
+        const pkgs = [
+            await createPackage("a", {dependencies: ["b"]}),
+            await createPackage("b", {optionalDependencies: ["c"]}),
+            await createPackage("c", {dependencies: ["a"]})
+        ];
+
+        expect(() => sortByDependencies(pkgs)).toThrowError("Workspace packages have circular dependencies: a -> b -> c -> a.");
+    });
+
+
+});
+
+
+describe("rewriteWorkspaceDependencies()", () => {
+
+
+    it("rewrites dependencies on workspace packages in every dependency property", () => {
+        const pkgJson = {
+            dependencies:    {core: "^1.0.0", lodash: "^4.0.0"},
+            devDependencies: {testing: "*"},
+            peerDependencies: {core: "^1.0.0"}
+        };
+        const rewritten = rewriteWorkspaceDependencies(pkgJson, {core: "url-core", testing: "url-testing"});
+
+        expect(rewritten).toEqual(["core", "testing"]);
+        expect(pkgJson).toEqual({
+            dependencies:    {core: "url-core", lodash: "^4.0.0"},
+            devDependencies: {testing: "url-testing"},
+            peerDependencies: {core: "url-core"}
+        });
+    });
+
+
+});
@@ -0,0 +1,172 @@
+import * as path from "path";
+import * as _ from "lodash";
+import {Directory} from "./depot/directory";
+import {GitRepo} from "./depot/gitRepo";
+import {NodePackage} from "./depot/nodePackage";
+import {matchesGlob} from "./depot/stringHelpers";
+
+
+/**
+ * The package.json properties that can refer to other workspace packages.
+ */
+export const dependencyProperties = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+/**
+ * The package.json properties whose workspace packages must be published
+ * first.  devDependencies are not installed by consumers, so they do not
+ * affect the publish order (and are allowed to be circular, e.g. when a shared
+ * test utilities package depends on the packages it tests).
+ */
+const publishOrderProperties = ["dependencies", "peerDependencies", "optionalDependencies"];
+
+
+/**
+ * Gets the workspace globs defined in a package.json file.  Both the array
+ * form and the {"packages": [...]} form of the "workspaces" property are
+ * supported.
+ * @param rootPkg - The package at the root of the monorepo
+ * @return The globs matching the workspace package directories
+ */
+export function getWorkspaceGlobs(rootPkg: NodePackage): Array<string>
+{
+    const workspaces = rootPkg.config.workspaces;
+    const globs = _.isArray(workspaces) ? workspaces : (workspaces && workspaces.packages) || [];
+    if (globs.length === 0)
+    {
+        throw new Error(
+            `${rootPkg.config.name || "The root package"} does not define any workspaces.  ` +
+            "Add a \"workspaces\" property to package.json or specify the globs after --workspaces."
+        );
+    }
+    return globs;
+}
+
+
+/**
+ * Finds the packages that make up a monorepo's workspaces.  Only directories
+ * containing a package.json that is under version control are considered.
+ * @param repo - The repo containing the monorepo
+ * @param rootDir - The root directory of the monorepo (that the globs are
+ * relative to)
+ * @param globs - Globs matching the workspace package directories (e.g.
+ * "packages/*")
+ * @return A Promise for the workspace packages, sorted by name
+ */
+export async function findWorkspacePackages(
+    repo: GitRepo,
+    rootDir: Directory,
+    globs: Array<string>
+): Promise<Array<NodePackage>>
+{
+    const normalizedGlobs = _.map(globs, (curGlob) => _.trimEnd(curGlob.replace(/^\.\//, ""), "/"));
+    const rootAbsPath = path.join(repo.directory.absPath(), repo.getRelativePath(rootDir));
+
+    const packageDirs = _.chain(await repo.files())
+    .filter((curFile) => curFile.fileName === "package.json")
+    .map((curFile) => path.relative(rootAbsPath, curFile.directory.absPath()).split(path.sep).join("/"))
+    .filter((curRelPath) => curRelPath !== "" && !_.startsWith(curRelPath, ".."))
+    .filter((curRelPath) => _.some(normalizedGlobs, (curGlob) => matchesGlob(curRelPath, curGlob)))
+    .value();
+
+    if (packageDirs.length === 0)
+    {
+        throw new Error(`No workspace packages match ${globs.join(", ")}.`);
+    }
+
+    const pkgs = await Promise.all(_.map(packageDirs, (curRelPath) => {
+        return NodePackage.fromDirectory(new Directory(rootAbsPath, curRelPath));
+    }));
+
+    const duplicateNames = _.chain(pkgs)
+    .countBy((curPkg) => curPkg.config.name)
+    .pickBy((count) => count > 1)
+    .keys()
+    .value();
+    if (duplicateNames.length > 0)
+    {
+        throw new Error(`The following workspace package names are used more than once: ${duplicateNames.join(", ")}.`);
+    }
+
+    return _.sortBy(pkgs, (curPkg) => curPkg.config.name);
+}
+
+
+/**
+ * Gets the names of the workspace packages that must be published before a
+ * package.
+ * @param pkg - The package
+ * @param workspaceNames - The names of all workspace packages
+ * @return The names of the workspace packages pkg depends on (ignoring
+ * devDependencies)
+ */
+export function getWorkspaceDependencies(pkg: NodePackage, workspaceNames: Array<string>): Array<string>
+{
+    const config: any = pkg.config;
+    const dependencyNames = _.flatMap(publishOrderProperties, (curProp) => Object.keys(config[curProp] || {}));
+    return _.intersection(_.uniq(dependencyNames), workspaceNames);
+}
+
+
+/**
+ * Sorts workspace packages so that each package comes after the workspace
+ * packages it depends on.  devDependencies are ignored.
+ * @param pkgs - The workspace packages
+ * @return The packages in dependency order.  An Error is thrown if the
+ * dependencies are circular.
+ */
+export function sortByDependencies(pkgs: Array<NodePackage>): Array<NodePackage>
+{
+    const pkgsByName = _.keyBy(pkgs, (curPkg) => curPkg.config.name);
+    const workspaceNames = Object.keys(pkgsByName);
+
+    const sorted: Array<NodePackage> = [];
+    const visited: {[name: string]: boolean} = {};
+    const visiting: Array<string> = [];
+
+    const visit = (name: string) => {
+        if (visited[name])
+        {
+            return;
+        }
+
+        if (_.includes(visiting, name))
+        {
+            const cycle = visiting.slice(visiting.indexOf(name)).concat(name);
+            throw new Error(`Workspace packages have circular dependencies: ${cycle.join(" -> ")}.`);
+        }
+
+        visiting.push(name);
+        _.forEach(getWorkspaceDependencies(pkgsByName[name], workspaceNames), visit);
+        visiting.pop();
+
+        visited[name] = true;
+        sorted.push(pkgsByName[name]);
+    };
+
+    _.forEach(pkgs, (curPkg) => visit(curPkg.config.name));
+    return sorted;
+}
+
+
+/**
+ * Rewrites dependencies on other workspace packages so that they refer to the
+ * packages' publish commits.
+ * @param pkgJson - The contents of the package.json file to update
+ * @param urls - The install URL to use for each workspace package, keyed by
+ * package name
+ * @return The names of the dependencies that were rewritten
+ */
+export function rewriteWorkspaceDependencies(pkgJson: any, urls: {[name: string]: string}): Array<string>
+{
+    const rewritten: Array<string> = [];
+    _.forEach(dependencyProperties, (curProp) => {
+        _.forOwn(pkgJson[curProp] || {}, (version, name) => {
+            if (urls[name] !== undefined)
+            {
+                pkgJson[curProp][name] = urls[name];
+                rewritten.push(name);
+            }
+        });
+    });
+    return _.uniq(rewritten);
+}